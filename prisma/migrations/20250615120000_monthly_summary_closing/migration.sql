@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "monthly_summaries" ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "closedBy" TEXT,
+ADD COLUMN     "isClosed" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "meal_types" (
+    "id" TEXT NOT NULL,
+    "code" VARCHAR(5) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "unitPrice" DECIMAL(6,2) NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "provider" VARCHAR(150),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meal_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meal_types_code_effectiveFrom_key" ON "meal_types"("code", "effectiveFrom");
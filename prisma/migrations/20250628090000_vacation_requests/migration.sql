@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "VacationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN     "hireDate" DATE;
+
+-- CreateTable
+CREATE TABLE "vacation_requests" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "days" INTEGER NOT NULL,
+    "status" "VacationStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "requestedBy" TEXT,
+    "approvedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vacation_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vacation_requests_employeeId_startDate_idx" ON "vacation_requests"("employeeId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "vacation_requests_status_idx" ON "vacation_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "vacation_requests" ADD CONSTRAINT "vacation_requests_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "attendance_records" ADD COLUMN     "permissionDocument" VARCHAR(150),
+ADD COLUMN     "permissionTypeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "permission_types" (
+    "id" TEXT NOT NULL,
+    "code" VARCHAR(20) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "isPaid" BOOLEAN NOT NULL DEFAULT false,
+    "requiresDocument" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "permission_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permission_types_code_key" ON "permission_types"("code");
+
+-- AddForeignKey
+ALTER TABLE "attendance_records" ADD CONSTRAINT "attendance_records_permissionTypeId_fkey" FOREIGN KEY ("permissionTypeId") REFERENCES "permission_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "user_area_assignments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "areaId" TEXT NOT NULL,
+    "assignedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_area_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_area_assignments_userId_areaId_key" ON "user_area_assignments"("userId", "areaId");
+
+-- AddForeignKey
+ALTER TABLE "user_area_assignments" ADD CONSTRAINT "user_area_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_area_assignments" ADD CONSTRAINT "user_area_assignments_areaId_fkey" FOREIGN KEY ("areaId") REFERENCES "areas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('CEDULA', 'RUC', 'PASAPORTE');
+
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN     "documentType" "DocumentType" NOT NULL DEFAULT 'CEDULA';
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN     "terminationDate" DATE;
+
+-- CreateTable
+CREATE TABLE "employment_history" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "areaId" TEXT,
+    "position" VARCHAR(100),
+    "baseSalary" DECIMAL(10,2),
+    "effectiveFrom" DATE NOT NULL,
+    "reason" VARCHAR(255),
+    "changedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "employment_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "employment_history_employeeId_effectiveFrom_key" ON "employment_history"("employeeId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "employment_history_areaId_effectiveFrom_idx" ON "employment_history"("areaId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "employment_history" ADD CONSTRAINT "employment_history_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employment_history" ADD CONSTRAINT "employment_history_areaId_fkey" FOREIGN KEY ("areaId") REFERENCES "areas"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: la situación actual de cada empleado rige desde su ingreso (o su alta en el sistema)
+INSERT INTO "employment_history" ("id", "employeeId", "areaId", "position", "baseSalary", "effectiveFrom", "reason")
+SELECT gen_random_uuid()::text, "id", "areaId", "position", "baseSalary", COALESCE("hireDate", "createdAt"::date), 'Situación inicial'
+FROM "employees";
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "allAreas" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: los usuarios sin asignaciones trabajaban con todas las áreas;
+-- conservan ese acceso hasta que un ADMIN les asigne áreas o lo retire
+UPDATE "users" SET "allAreas" = true
+WHERE "role" <> 'ADMIN'
+  AND NOT EXISTS (
+    SELECT 1 FROM "user_area_assignments" WHERE "user_area_assignments"."userId" = "users"."id"
+  );
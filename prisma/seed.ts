@@ -1,8 +1,51 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { generateTemporaryPassword } from '../src/shared/utils/passwords';
 
 const prisma = new PrismaClient();
 
+// Domingo de Pascua (algoritmo de Butcher/Meeus para el calendario gregoriano)
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Feriados nacionales de Ecuador (fechas oficiales; los traslados por decreto se ajustan desde /api/holidays)
+function getEcuadorHolidays(year: number): { date: Date; name: string }[] {
+  const easter = getEasterSunday(year);
+
+  return [
+    { date: new Date(Date.UTC(year, 0, 1)), name: 'Año Nuevo' },
+    { date: addDays(easter, -48), name: 'Carnaval (lunes)' },
+    { date: addDays(easter, -47), name: 'Carnaval (martes)' },
+    { date: addDays(easter, -2), name: 'Viernes Santo' },
+    { date: new Date(Date.UTC(year, 4, 1)), name: 'Día del Trabajo' },
+    { date: new Date(Date.UTC(year, 4, 24)), name: 'Batalla de Pichincha' },
+    { date: new Date(Date.UTC(year, 7, 10)), name: 'Primer Grito de Independencia' },
+    { date: new Date(Date.UTC(year, 9, 9)), name: 'Independencia de Guayaquil' },
+    { date: new Date(Date.UTC(year, 10, 2)), name: 'Día de los Difuntos' },
+    { date: new Date(Date.UTC(year, 10, 3)), name: 'Independencia de Cuenca' },
+    { date: new Date(Date.UTC(year, 11, 25)), name: 'Navidad' }
+  ];
+}
+
 async function main() {
   console.log('Iniciando seed...');
 
@@ -57,8 +100,9 @@ async function main() {
 
   console.log(areas.length + ' areas creadas');
 
-  // Crear empleado admin
-  const hashedPassword = await bcrypt.hash('admin123', 10);
+  // Crear empleado admin: contraseña de SEED_ADMIN_PASSWORD o una temporal que debe cambiarse al ingresar
+  const adminPassword = process.env.SEED_ADMIN_PASSWORD || generateTemporaryPassword();
+  const hashedPassword = await bcrypt.hash(adminPassword, 10);
   
   const adminEmployee = await prisma.employee.create({
     data: {
@@ -72,7 +116,11 @@ async function main() {
         create: {
           email: 'admin@hojaverde.com',
           password: hashedPassword,
-          role: 'ADMIN'
+          role: 'ADMIN',
+          mustChangePassword: true,
+          passwordHistory: {
+            create: { passwordHash: hashedPassword }
+          }
         }
       }
     },
@@ -82,6 +130,9 @@ async function main() {
   });
 
   console.log('Usuario admin creado: ' + adminEmployee.user?.email);
+  if (!process.env.SEED_ADMIN_PASSWORD) {
+    console.log('Contraseña temporal del admin (se pedirá cambiarla al ingresar): ' + adminPassword);
+  }
 
   // Crear algunos empleados de ejemplo
   const employees = await Promise.all([
@@ -118,6 +169,51 @@ async function main() {
   ]);
 
   console.log(employees.length + ' empleados de ejemplo creados');
+
+  // Situación inicial de cada empleado en el historial laboral
+  const today = new Date(new Date().toISOString().substr(0, 10));
+  await prisma.employmentHistory.createMany({
+    data: [adminEmployee, ...employees].map(employee => ({
+      employeeId: employee.id,
+      areaId: employee.areaId,
+      position: employee.position,
+      baseSalary: employee.baseSalary,
+      effectiveFrom: today,
+      reason: 'Ingreso'
+    }))
+  });
+
+  // Cargar feriados nacionales del año actual y el siguiente
+  const currentYear = new Date().getFullYear();
+  const holidays = [...getEcuadorHolidays(currentYear), ...getEcuadorHolidays(currentYear + 1)];
+
+  for (const holiday of holidays) {
+    await prisma.holiday.upsert({
+      where: { date: holiday.date },
+      update: { name: holiday.name },
+      create: holiday
+    });
+  }
+
+  console.log(holidays.length + ' feriados nacionales cargados');
+
+  // Catálogo de tipos de permiso (los remunerados no descuentan horas trabajadas)
+  const permissionTypes = [
+    { code: 'MEDICO', name: 'Cita médica', isPaid: true, requiresDocument: true },
+    { code: 'IESS', name: 'Enfermedad con certificado del IESS', isPaid: true, requiresDocument: true },
+    { code: 'CALAMIDAD', name: 'Calamidad doméstica', isPaid: true, requiresDocument: true },
+    { code: 'PERSONAL', name: 'Trámite personal', isPaid: false, requiresDocument: false }
+  ];
+
+  for (const permissionType of permissionTypes) {
+    await prisma.permissionType.upsert({
+      where: { code: permissionType.code },
+      update: {},
+      create: permissionType
+    });
+  }
+
+  console.log(permissionTypes.length + ' tipos de permiso cargados');
   console.log('Seed completado exitosamente!');
 }
 
@@ -0,0 +1,283 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { AuditAction, Prisma } from '@prisma/client';
+
+// ====================================================================
+// AUDITORÍA DE CAMBIOS
+// Una extensión de Prisma registra cada escritura sobre los modelos
+// auditados en la misma transacción que el cambio; el usuario que la
+// realiza se toma del contexto de la petición
+// ====================================================================
+
+type AuditRow = Record<string, unknown>;
+
+// Lecturas que la auditoría necesita de cualquier modelo auditado
+interface AuditDelegate {
+  findUnique(args: { where: object }): PromiseLike<AuditRow | null>;
+  findMany(args: { where?: object }): PromiseLike<AuditRow[]>;
+  createManyAndReturn(args: object): PromiseLike<AuditRow[]>;
+}
+
+// Escrituras auditadas; se vuelven a ejecutar dentro de una transacción si llegan fuera de ella
+const AUDITED_OPERATIONS = ['create', 'createMany', 'update', 'upsert', 'delete', 'updateMany', 'deleteMany'] as const;
+
+type AuditedOperation = typeof AUDITED_OPERATIONS[number];
+
+type WriteDelegate = Record<AuditedOperation, (args: unknown) => PromiseLike<unknown>>;
+
+type AuditedDelegateName =
+  | 'area'
+  | 'employee'
+  | 'user'
+  | 'attendanceRecord'
+  | 'foodAllowance'
+  | 'mealType'
+  | 'vacationRequest'
+  | 'permissionType'
+  | 'schedule'
+  | 'shiftAssignment'
+  | 'userAreaAssignment';
+
+// Modelo auditado → campo usado como entityId y delegado para leer sus filas
+const AUDITED_MODELS: Partial<Record<Prisma.ModelName, { keyField: string; delegate: AuditedDelegateName }>> = {
+  Area: { keyField: 'id', delegate: 'area' },
+  Employee: { keyField: 'id', delegate: 'employee' },
+  User: { keyField: 'id', delegate: 'user' },
+  AttendanceRecord: { keyField: 'id', delegate: 'attendanceRecord' },
+  // La alimentación se audita con el ID del registro de asistencia
+  FoodAllowance: { keyField: 'attendanceId', delegate: 'foodAllowance' },
+  MealType: { keyField: 'id', delegate: 'mealType' },
+  VacationRequest: { keyField: 'id', delegate: 'vacationRequest' },
+  PermissionType: { keyField: 'id', delegate: 'permissionType' },
+  Schedule: { keyField: 'id', delegate: 'schedule' },
+  ShiftAssignment: { keyField: 'id', delegate: 'shiftAssignment' },
+  UserAreaAssignment: { keyField: 'id', delegate: 'userAreaAssignment' }
+};
+
+// Campos que nunca se guardan en la auditoría
+const REDACTED_FIELDS = ['password'];
+
+export interface AuditEntry {
+  userId: string | null;
+  action: AuditAction;
+  entity: string;
+  entityId: string | null;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+// Cliente base, extendido o de transacción: se usa para guardar entradas y leer filas auditadas
+interface AuditLogClient {
+  auditLog: { createMany(args: { data: AuditEntry[] }): Promise<unknown> };
+}
+
+type AuditClient = AuditLogClient & Record<AuditedDelegateName, AuditDelegate>;
+
+interface TransactionOptions {
+  maxWait?: number;
+  timeout?: number;
+  isolationLevel?: Prisma.TransactionIsolationLevel;
+}
+
+interface AuditContext {
+  userId: string | null;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+// Transacción interactiva en curso: las lecturas y las entradas de auditoría van en ella
+const transactionStorage = new AsyncLocalStorage<AuditClient>();
+
+function toAuditJson(row: AuditRow | null | undefined): Prisma.InputJsonValue | undefined {
+  if (!row) {
+    return undefined;
+  }
+
+  const sanitized: AuditRow = { ...row };
+  REDACTED_FIELDS.forEach(field => {
+    if (field in sanitized) {
+      sanitized[field] = '[REDACTED]';
+    }
+  });
+
+  // Decimal y Date se serializan como texto
+  return JSON.parse(JSON.stringify(sanitized));
+}
+
+function buildEntry(
+  entity: Prisma.ModelName,
+  action: AuditAction,
+  before: AuditRow | null | undefined,
+  after: AuditRow | null | undefined
+): AuditEntry {
+  const keyField = AUDITED_MODELS[entity]?.keyField || 'id';
+  const source = after || before;
+  const afterJson = toAuditJson(after) as AuditRow | undefined;
+
+  // Dejar constancia del cambio de contraseña sin guardar el hash
+  if (before && after && afterJson && REDACTED_FIELDS.some(field => field in after && before[field] !== after[field])) {
+    afterJson.passwordChanged = true;
+  }
+
+  return {
+    userId: auditStorage.getStore()?.userId || null,
+    action,
+    entity,
+    entityId: source?.[keyField] ? String(source[keyField]) : null,
+    before: toAuditJson(before),
+    after: afterJson as Prisma.InputJsonValue | undefined
+  };
+}
+
+async function saveEntries(client: AuditLogClient, entries: AuditEntry[]): Promise<void> {
+  if (entries.length > 0) {
+    await client.auditLog.createMany({ data: entries });
+  }
+}
+
+/**
+ * Registrar cambios hechos fuera de Prisma Client (por ejemplo SQL directo).
+ * client debe ser la transacción que hizo el cambio.
+ */
+export async function recordAuditChanges(
+  client: AuditLogClient,
+  entity: Prisma.ModelName,
+  action: AuditAction,
+  changes: { before?: AuditRow | null; after?: AuditRow | null }[]
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  await saveEntries(client, changes.map(change => buildEntry(entity, action, change.before, change.after)));
+}
+
+/**
+ * Asociar las escrituras de la petición actual al usuario autenticado
+ */
+export function setAuditUser(userId: string): void {
+  const context = auditStorage.getStore();
+  if (context) {
+    context.userId = userId;
+  }
+}
+
+/**
+ * Middleware que abre el contexto de auditoría de cada petición
+ */
+export function auditContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  auditStorage.run({ userId: null }, () => next());
+}
+
+function isAuditedOperation(operation: string): operation is AuditedOperation {
+  return (AUDITED_OPERATIONS as readonly string[]).includes(operation);
+}
+
+// Ejecutar una escritura y guardar su auditoría con el cliente de la misma transacción
+async function auditWrite(
+  tx: AuditClient,
+  model: Prisma.ModelName,
+  operation: AuditedOperation,
+  args: unknown,
+  execute: (args: unknown) => PromiseLike<unknown>
+): Promise<unknown> {
+  const { keyField, delegate: delegateName } = AUDITED_MODELS[model]!;
+  const delegate = tx[delegateName];
+  const { where } = args as { where?: object };
+
+  switch (operation) {
+  case 'create': {
+    const result = await execute(args);
+    await saveEntries(tx, [buildEntry(model, 'CREATE', null, result as AuditRow)]);
+    return result;
+  }
+
+  case 'createMany': {
+    // Insertar devolviendo las filas guardadas, con IDs y valores por defecto
+    const created = await delegate.createManyAndReturn(args as object);
+    await saveEntries(tx, created.map(row => buildEntry(model, 'CREATE', null, row)));
+    return { count: created.length };
+  }
+
+  case 'update':
+  case 'upsert':
+  case 'delete': {
+    const before = where ? await delegate.findUnique({ where }) : null;
+    const result = await execute(args);
+    const action: AuditAction = operation === 'delete' ? 'DELETE' : before ? 'UPDATE' : 'CREATE';
+    await saveEntries(tx, [
+      buildEntry(model, action, before, operation === 'delete' ? null : result as AuditRow)
+    ]);
+    return result;
+  }
+
+  case 'updateMany':
+  case 'deleteMany': {
+    const before = await delegate.findMany({ where });
+    const result = await execute(args);
+
+    if (operation === 'deleteMany') {
+      await saveEntries(tx, before.map(row => buildEntry(model, 'DELETE', row, null)));
+      return result;
+    }
+
+    // Releer las filas para registrar los valores finales (por ejemplo { increment: 1 })
+    const keys = before.map(row => row[keyField]);
+    const after = keys.length > 0
+      ? await delegate.findMany({ where: { [keyField]: { in: keys } } })
+      : [];
+    const afterByKey = new Map(after.map(row => [row[keyField], row]));
+
+    await saveEntries(tx, before.map(row => buildEntry(model, 'UPDATE', row, afterByKey.get(row[keyField]))));
+    return result;
+  }
+  }
+}
+
+/**
+ * Extensión de Prisma que audita create, update, upsert, delete y sus variantes masivas.
+ * El estado anterior y posterior se lee y la entrada se guarda con el cliente de la
+ * transacción en curso; una escritura suelta se ejecuta en una transacción propia,
+ * de modo que el cambio no se confirma sin su auditoría.
+ */
+export function createAuditExtension() {
+  return Prisma.defineExtension(client => {
+    const auditedClient = client.$extends({
+      name: 'audit',
+      query: {
+        $allModels: {
+          async $allOperations({ model, operation, args, query }) {
+            const audited = AUDITED_MODELS[model];
+            if (!audited || !isAuditedOperation(operation)) {
+              return query(args);
+            }
+
+            const tx = transactionStorage.getStore();
+            if (tx) {
+              return auditWrite(tx, model, operation, args, writeArgs => query(writeArgs as typeof args));
+            }
+
+            // El cliente sin extender no vuelve a pasar por la auditoría
+            return client.$transaction(baseTx => {
+              const auditTx = baseTx as unknown as AuditClient & Record<AuditedDelegateName, WriteDelegate>;
+              return auditWrite(auditTx, model, operation, args, writeArgs =>
+                auditTx[audited.delegate][operation](writeArgs)
+              );
+            });
+          }
+        }
+      }
+    });
+
+    return auditedClient.$extends({
+      name: 'auditTransactions',
+      client: {
+        // Las transacciones interactivas exponen su cliente a la auditoría
+        $transaction: ((arg: unknown, options?: TransactionOptions) => typeof arg === 'function'
+          ? auditedClient.$transaction(tx => transactionStorage.run(tx, () => arg(tx)), options)
+          : auditedClient.$transaction(arg as Prisma.PrismaPromise<unknown>[], options)
+        ) as typeof auditedClient.$transaction
+      }
+    });
+  });
+}
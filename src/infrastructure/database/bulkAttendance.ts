@@ -0,0 +1,353 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { DayType } from '../../shared/utils/calendar';
+import { calculateRecordHours } from '../../shared/utils/attendanceHours';
+import { recordAuditChanges } from './audit';
+import { EffectiveSchedule } from './schedules';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// PERSISTENCIA MASIVA DE ASISTENCIA
+// Escritura por lotes (createMany / UPDATE ... FROM VALUES) para que el
+// guardado de 615 empleados use un número fijo de consultas
+// ====================================================================
+
+export type BulkMode = 'create' | 'upsert' | 'skip';
+
+export interface BulkFoodAllowanceInput {
+  breakfast?: number;
+  reinforcedBreakfast?: number;
+  snack1?: number;
+  afternoonSnack?: number;
+  dryMeal?: number;
+  lunch?: number;
+  transport?: number;
+}
+
+export interface BulkAttendanceInput {
+  employeeId: string;
+  entryTime?: string;
+  exitTime?: string;
+  lunchDuration?: number;
+  isVacation?: boolean;
+  permissionHours?: number;
+  permissionReason?: string;
+  permissionTypeId?: string;
+  permissionDocument?: string;
+  foodAllowance?: BulkFoodAllowanceInput;
+}
+
+export interface BulkPermissionType {
+  id: string;
+  code: string;
+  name: string;
+  isPaid: boolean;
+  requiresDocument: boolean;
+  isActive: boolean;
+}
+
+export interface BulkEmployee {
+  id: string;
+  identification: string;
+  firstName: string;
+  lastName: string;
+  area: {
+    name: string;
+    defaultWorkingHours: number;
+  } | null;
+  // Horario efectivo de la fecha (turno asignado o área); su jornada define las horas suplementarias
+  schedule?: EffectiveSchedule;
+}
+
+export interface PlannedAttendanceRow {
+  index: number;
+  attendanceId: string;
+  isUpdate: boolean;
+  record: BulkAttendanceInput;
+  employee: BulkEmployee;
+  permissionType: BulkPermissionType | null;
+  hours: {
+    workedHours: number;
+    nightHours: number;
+    supplementaryHours: number;
+    extraordinaryHours: number;
+  };
+}
+
+export interface BulkRowError {
+  index: number;
+  employeeId: string;
+  identification?: string;
+  name?: string;
+  error: string;
+}
+
+export interface BulkSkippedRecord {
+  index: number;
+  employeeId: string;
+  identification: string;
+  name: string;
+  status: 'skipped';
+}
+
+export interface BulkAttendancePlan {
+  rows: PlannedAttendanceRow[];
+  skippedRecords: BulkSkippedRecord[];
+  errors: BulkRowError[];
+}
+
+function createTimeDate(timeString: string): Date {
+  return new Date(`1970-01-01T${timeString}:00.000Z`);
+}
+
+function toDecimal(value: number): Decimal {
+  return new Decimal(value.toFixed(2));
+}
+
+function buildFoodAllowance(input?: BulkFoodAllowanceInput) {
+  const foodAllowance = { breakfast: 0, reinforcedBreakfast: 0, snack1: 0, afternoonSnack: 0, dryMeal: 0, lunch: 0, transport: 0, ...input };
+
+  return {
+    breakfast: foodAllowance.breakfast,
+    reinforcedBreakfast: foodAllowance.reinforcedBreakfast,
+    snack1: foodAllowance.snack1,
+    afternoonSnack: foodAllowance.afternoonSnack,
+    dryMeal: foodAllowance.dryMeal,
+    lunch: foodAllowance.lunch,
+    transport: toDecimal(foodAllowance.transport)
+  };
+}
+
+function hasExtraHours(row: PlannedAttendanceRow): boolean {
+  return row.hours.nightHours > 0 || row.hours.supplementaryHours > 0 || row.hours.extraordinaryHours > 0;
+}
+
+/**
+ * Obtener en una sola consulta los registros ya existentes para la fecha
+ * Retorna un mapa employeeId → attendanceId
+ */
+export async function findExistingAttendance(
+  client: TransactionClient,
+  dateObj: Date,
+  employeeIds: string[]
+): Promise<Map<string, string>> {
+  const existingRecords = await client.attendanceRecord.findMany({
+    where: {
+      date: dateObj,
+      employeeId: { in: employeeIds }
+    },
+    select: {
+      id: true,
+      employeeId: true
+    }
+  });
+
+  return new Map(existingRecords.map(record => [record.employeeId, record.id]));
+}
+
+/**
+ * Decidir qué hacer con cada registro (crear, sobrescribir, omitir o rechazar)
+ * y calcular sus horas, sin escribir en la base de datos
+ */
+export function planBulkAttendance(params: {
+  records: BulkAttendanceInput[];
+  employeeMap: Map<string, BulkEmployee>;
+  permissionTypeMap: Map<string, BulkPermissionType>;
+  existingByEmployee: Map<string, string>;
+  mode: BulkMode;
+  dayType: DayType;
+}): BulkAttendancePlan {
+  const { records, employeeMap, permissionTypeMap, existingByEmployee, mode, dayType } = params;
+  const plan: BulkAttendancePlan = { rows: [], skippedRecords: [], errors: [] };
+  const seenEmployees = new Set<string>();
+
+  records.forEach((record, index) => {
+    const employee = employeeMap.get(record.employeeId);
+
+    if (!employee) {
+      plan.errors.push({
+        index,
+        employeeId: record.employeeId,
+        error: 'Empleado no encontrado'
+      });
+      return;
+    }
+
+    const employeeInfo = {
+      employeeId: record.employeeId,
+      identification: employee.identification,
+      name: `${employee.firstName} ${employee.lastName}`
+    };
+
+    if (seenEmployees.has(record.employeeId)) {
+      plan.errors.push({
+        index,
+        ...employeeInfo,
+        error: 'Empleado repetido en la misma solicitud'
+      });
+      return;
+    }
+    seenEmployees.add(record.employeeId);
+
+    const existingId = existingByEmployee.get(record.employeeId);
+
+    if (existingId && mode === 'skip') {
+      plan.skippedRecords.push({ index, ...employeeInfo, status: 'skipped' });
+      return;
+    }
+
+    if (existingId && mode === 'create') {
+      plan.errors.push({
+        index,
+        ...employeeInfo,
+        error: 'Ya existe registro para esta fecha'
+      });
+      return;
+    }
+
+    const permissionType = record.permissionTypeId
+      ? permissionTypeMap.get(record.permissionTypeId) || null
+      : null;
+
+    if (record.permissionTypeId && (!permissionType || !permissionType.isActive)) {
+      plan.errors.push({
+        index,
+        ...employeeInfo,
+        error: 'Tipo de permiso no encontrado o inactivo'
+      });
+      return;
+    }
+
+    plan.rows.push({
+      index,
+      attendanceId: existingId || randomUUID(),
+      isUpdate: !!existingId,
+      record,
+      employee,
+      permissionType,
+      hours: calculateRecordHours(
+        { ...record, isPaidPermission: permissionType?.isPaid },
+        employee.schedule?.workingHours || employee.area?.defaultWorkingHours || 8,
+        dayType
+      )
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * Escribir el plan en lotes dentro de la transacción recibida:
+ * 1. INSERT masivo de registros nuevos
+ * 2. UPDATE ... FROM VALUES de registros sobrescritos (modo upsert)
+ * 3. Reemplazo masivo de alimentación y horas extras
+ */
+export async function persistBulkAttendance(
+  tx: TransactionClient,
+  dateObj: Date,
+  rows: PlannedAttendanceRow[],
+  registeredBy: string | null = null
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const newRows = rows.filter(row => !row.isUpdate);
+  const updatedRows = rows.filter(row => row.isUpdate);
+
+  if (newRows.length > 0) {
+    await tx.attendanceRecord.createMany({
+      data: newRows.map(row => ({
+        id: row.attendanceId,
+        employeeId: row.record.employeeId,
+        date: dateObj,
+        entryTime: row.record.entryTime ? createTimeDate(row.record.entryTime) : null,
+        exitTime: row.record.exitTime ? createTimeDate(row.record.exitTime) : null,
+        lunchDuration: row.record.lunchDuration || 30,
+        workedHours: toDecimal(row.hours.workedHours),
+        isVacation: row.record.isVacation || false,
+        permissionHours: toDecimal(row.record.permissionHours || 0),
+        permissionReason: row.record.permissionReason || null,
+        permissionTypeId: row.record.permissionTypeId || null,
+        permissionDocument: row.record.permissionDocument || null,
+        registeredBy
+      }))
+    });
+  }
+
+  if (updatedRows.length > 0) {
+    const updatedIds = updatedRows.map(row => row.attendanceId);
+    const beforeUpdate = await tx.attendanceRecord.findMany({
+      where: { id: { in: updatedIds } }
+    });
+
+    const values = updatedRows.map(row => Prisma.sql`(
+      ${row.attendanceId},
+      ${row.record.entryTime || null},
+      ${row.record.exitTime || null},
+      ${row.record.lunchDuration || 30},
+      ${row.hours.workedHours.toFixed(2)},
+      ${row.record.isVacation || false},
+      ${(row.record.permissionHours || 0).toFixed(2)},
+      ${row.record.permissionReason || null},
+      ${row.record.permissionTypeId || null},
+      ${row.record.permissionDocument || null}
+    )`);
+
+    await tx.$executeRaw`
+      UPDATE "attendance_records" AS a SET
+        "entryTime" = v."entryTime"::time,
+        "exitTime" = v."exitTime"::time,
+        "lunchDuration" = v."lunchDuration"::integer,
+        "workedHours" = v."workedHours"::decimal(4, 2),
+        "isVacation" = v."isVacation"::boolean,
+        "permissionHours" = v."permissionHours"::decimal(4, 2),
+        "permissionReason" = v."permissionReason"::text,
+        "permissionTypeId" = v."permissionTypeId"::text,
+        "permissionDocument" = v."permissionDocument"::varchar(150),
+        "registeredBy" = ${registeredBy},
+        "updatedAt" = CURRENT_TIMESTAMP
+      FROM (VALUES ${Prisma.join(values)})
+        AS v("id", "entryTime", "exitTime", "lunchDuration", "workedHours", "isVacation", "permissionHours", "permissionReason", "permissionTypeId", "permissionDocument")
+      WHERE a."id" = v."id"
+    `;
+
+    // El UPDATE con SQL directo no pasa por la extensión de auditoría
+    const afterUpdate = await tx.attendanceRecord.findMany({
+      where: { id: { in: updatedIds } }
+    });
+    const afterById = new Map(afterUpdate.map(record => [record.id, record]));
+    await recordAuditChanges(tx, 'AttendanceRecord', 'UPDATE', beforeUpdate.map(record => ({
+      before: record,
+      after: afterById.get(record.id)
+    })));
+
+    // La alimentación se reemplaza y las horas extras se recalculan
+    await tx.foodAllowance.deleteMany({
+      where: { attendanceId: { in: updatedIds } }
+    });
+    await tx.extraHours.deleteMany({
+      where: { attendanceId: { in: updatedIds } }
+    });
+  }
+
+  await tx.foodAllowance.createMany({
+    data: rows.map(row => ({
+      attendanceId: row.attendanceId,
+      ...buildFoodAllowance(row.record.foodAllowance)
+    }))
+  });
+
+  const rowsWithExtraHours = rows.filter(hasExtraHours);
+  if (rowsWithExtraHours.length > 0) {
+    await tx.extraHours.createMany({
+      data: rowsWithExtraHours.map(row => ({
+        attendanceId: row.attendanceId,
+        nightHours: toDecimal(row.hours.nightHours),
+        supplementaryHours: toDecimal(row.hours.supplementaryHours),
+        extraordinaryHours: toDecimal(row.hours.extraordinaryHours)
+      }))
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { PrismaClient } from '@prisma/client';
+import { ITXClientDenyList } from '@prisma/client/runtime/library';
+import { createAuditExtension } from './audit';
+
+// ====================================================================
+// CLIENTE DE BASE DE DATOS
+// PrismaClient con la extensión de auditoría; los módulos de database
+// reciben el cliente o la transacción con estos tipos
+// ====================================================================
+
+export function createClient() {
+  return new PrismaClient({
+    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  }).$extends(createAuditExtension());
+}
+
+export type DatabaseClient = ReturnType<typeof createClient>;
+
+// Cliente recibido dentro de prisma.$transaction (sin $transaction, $connect, etc.)
+export type TransactionClient = Omit<DatabaseClient, ITXClientDenyList>;
@@ -0,0 +1,178 @@
+import { Prisma } from '@prisma/client';
+import { formatDateToString } from '../../shared/utils/period';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// HISTORIAL LABORAL
+// Cada fila es la situación del empleado (área, cargo y salario) vigente
+// desde effectiveFrom hasta el siguiente cambio. Los reportes la usan para
+// atribuir cada registro al área en la que estaba el empleado ese día y
+// valorarlo con el sueldo vigente en esa fecha.
+// ====================================================================
+
+export interface EmploymentSnapshot {
+  areaId: string | null;
+  position: string | null;
+  baseSalary: Prisma.Decimal | number | null;
+}
+
+export interface EmploymentChangeOptions {
+  effectiveFrom: Date;
+  reason?: string;
+  changedBy?: string | null;
+}
+
+// Área vigente de un empleado en una fecha (currentAreaId si no tiene historial)
+export type AreaResolver = (employeeId: string, currentAreaId: string | null, date: Date) => string | null;
+
+// Sueldo vigente de un empleado en una fecha (currentSalary si no tiene historial)
+export type SalaryResolver = (employeeId: string, currentSalary: number | null, date: Date) => number | null;
+
+interface EmploymentPeriod {
+  areaId: string | null;
+  baseSalary: number | null;
+  effectiveFrom: string;
+}
+
+function salaryToNumber(value: Prisma.Decimal | number | null): number | null {
+  return value === null ? null : Number(value.toString());
+}
+
+/**
+ * Indica si la actualización cambia el área, el cargo o el salario
+ */
+export function hasEmploymentChanges(before: EmploymentSnapshot, after: Partial<EmploymentSnapshot>): boolean {
+  return (after.areaId !== undefined && after.areaId !== before.areaId)
+    || (after.position !== undefined && after.position !== before.position)
+    || (after.baseSalary !== undefined && salaryToNumber(after.baseSalary) !== salaryToNumber(before.baseSalary));
+}
+
+/**
+ * Último cambio registrado del empleado (null si no tiene historial)
+ */
+export async function findLatestEmploymentChange(
+  client: TransactionClient,
+  employeeId: string
+): Promise<{ effectiveFrom: Date } | null> {
+  return client.employmentHistory.findFirst({
+    where: { employeeId },
+    orderBy: { effectiveFrom: 'desc' },
+    select: { effectiveFrom: true }
+  });
+}
+
+/**
+ * Registrar la situación vigente desde effectiveFrom.
+ * Un segundo cambio con la misma fecha reemplaza al anterior.
+ */
+export async function recordEmploymentChange(
+  client: TransactionClient,
+  employeeId: string,
+  snapshot: EmploymentSnapshot,
+  options: EmploymentChangeOptions
+): Promise<void> {
+  const data = {
+    areaId: snapshot.areaId,
+    position: snapshot.position,
+    baseSalary: snapshot.baseSalary,
+    reason: options.reason?.substring(0, 255) || null,
+    changedBy: options.changedBy || null
+  };
+
+  await client.employmentHistory.upsert({
+    where: {
+      employeeId_effectiveFrom: { employeeId, effectiveFrom: options.effectiveFrom }
+    },
+    create: { employeeId, effectiveFrom: options.effectiveFrom, ...data },
+    update: data
+  });
+}
+
+// Historial de cada empleado, del cambio más reciente al más antiguo
+async function loadEmploymentPeriods(
+  client: TransactionClient,
+  employeeIds: string[]
+): Promise<Map<string, EmploymentPeriod[]>> {
+  const history = employeeIds.length > 0
+    ? await client.employmentHistory.findMany({
+      where: { employeeId: { in: employeeIds } },
+      select: { employeeId: true, areaId: true, baseSalary: true, effectiveFrom: true },
+      orderBy: { effectiveFrom: 'desc' }
+    })
+    : [];
+
+  const periodsByEmployee = new Map<string, EmploymentPeriod[]>();
+  history.forEach(change => {
+    const periods = periodsByEmployee.get(change.employeeId) || [];
+    periods.push({
+      areaId: change.areaId,
+      baseSalary: salaryToNumber(change.baseSalary),
+      effectiveFrom: formatDateToString(change.effectiveFrom)
+    });
+    periodsByEmployee.set(change.employeeId, periods);
+  });
+
+  return periodsByEmployee;
+}
+
+// Situación vigente en la fecha; antes del primer cambio registrado, la más antigua conocida
+function findPeriodOn(periods: EmploymentPeriod[], date: Date): EmploymentPeriod {
+  const day = formatDateToString(date);
+  return periods.find(period => period.effectiveFrom <= day) || periods[periods.length - 1];
+}
+
+/**
+ * Cargar el historial de área de los empleados y devolver un resolvedor por fecha
+ */
+export async function createAreaResolver(
+  client: TransactionClient,
+  employeeIds: string[]
+): Promise<AreaResolver> {
+  const periodsByEmployee = await loadEmploymentPeriods(client, employeeIds);
+
+  return (employeeId, currentAreaId, date) => {
+    const periods = periodsByEmployee.get(employeeId);
+    return periods ? findPeriodOn(periods, date).areaId : currentAreaId;
+  };
+}
+
+/**
+ * Cargar el historial de sueldo de los empleados y devolver un resolvedor por fecha
+ */
+export async function createSalaryResolver(
+  client: TransactionClient,
+  employeeIds: string[]
+): Promise<SalaryResolver> {
+  const periodsByEmployee = await loadEmploymentPeriods(client, employeeIds);
+
+  return (employeeId, currentSalary, date) => {
+    const periods = periodsByEmployee.get(employeeId);
+    return periods ? findPeriodOn(periods, date).baseSalary : currentSalary;
+  };
+}
+
+/**
+ * Empleados que estuvieron alguna vez en las áreas indicadas.
+ * Es un filtro amplio: cada registro se vuelve a comprobar con createAreaResolver.
+ */
+export async function findEmployeeIdsInAreas(
+  client: TransactionClient,
+  areaIds: string[]
+): Promise<string[]> {
+  const [history, employees] = await Promise.all([
+    client.employmentHistory.findMany({
+      where: { areaId: { in: areaIds } },
+      select: { employeeId: true },
+      distinct: ['employeeId']
+    }),
+    client.employee.findMany({
+      where: { areaId: { in: areaIds } },
+      select: { id: true }
+    })
+  ]);
+
+  return Array.from(new Set([
+    ...history.map(change => change.employeeId),
+    ...employees.map(employee => employee.id)
+  ]));
+}
@@ -0,0 +1,136 @@
+import { LOGIN_PROTECTION } from '../../shared/constants';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// PROTECCIÓN CONTRA FUERZA BRUTA
+// Cada cuenta acumula sus fallos consecutivos: primero se exige una
+// espera creciente entre intentos y luego se bloquea temporalmente
+// ====================================================================
+
+export type LoginFailureReason = 'INVALID_PASSWORD' | 'UNKNOWN_EMAIL' | 'INACTIVE' | 'LOCKED' | 'DELAYED';
+
+export interface LoginAttemptInput {
+  userId?: string | null;
+  email: string;
+  success: boolean;
+  failureReason?: LoginFailureReason;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface LoginProtectionState {
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export type LoginBlock =
+  | { reason: 'LOCKED'; lockedUntil: Date; retryAfterSeconds: number }
+  | { reason: 'DELAYED'; retryAfterSeconds: number };
+
+/**
+ * Segundos que deben pasar desde el último fallo antes de aceptar otro intento
+ */
+export function getLoginDelaySeconds(failedAttempts: number): number {
+  if (failedAttempts < LOGIN_PROTECTION.DELAY_AFTER_FAILURES) {
+    return 0;
+  }
+
+  const exponent = failedAttempts - LOGIN_PROTECTION.DELAY_AFTER_FAILURES;
+  return Math.min(LOGIN_PROTECTION.BASE_DELAY_SECONDS * 2 ** exponent, LOGIN_PROTECTION.MAX_DELAY_SECONDS);
+}
+
+/**
+ * Bloqueo vigente de la cuenta (null si puede intentar ahora)
+ */
+export function getLoginBlock(state: LoginProtectionState, now: Date = new Date()): LoginBlock | null {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return {
+      reason: 'LOCKED',
+      lockedUntil: state.lockedUntil,
+      retryAfterSeconds: Math.ceil((state.lockedUntil.getTime() - now.getTime()) / 1000)
+    };
+  }
+
+  const delaySeconds = getLoginDelaySeconds(state.failedLoginAttempts);
+  if (delaySeconds > 0 && state.lastFailedLoginAt) {
+    const allowedAt = state.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+    if (allowedAt > now.getTime()) {
+      return {
+        reason: 'DELAYED',
+        retryAfterSeconds: Math.ceil((allowedAt - now.getTime()) / 1000)
+      };
+    }
+  }
+
+  return null;
+}
+
+export async function recordLoginAttempt(
+  client: TransactionClient,
+  attempt: LoginAttemptInput
+): Promise<void> {
+  await client.loginAttempt.create({
+    data: {
+      userId: attempt.userId || null,
+      email: attempt.email.substring(0, 255),
+      success: attempt.success,
+      failureReason: attempt.failureReason || null,
+      ipAddress: attempt.ipAddress?.substring(0, 45) || null,
+      userAgent: attempt.userAgent?.substring(0, 255) || null
+    }
+  });
+}
+
+/**
+ * Sumar un fallo consecutivo y bloquear la cuenta al alcanzar el máximo.
+ * Si el bloqueo anterior ya venció, los fallos se cuentan desde cero.
+ */
+export async function registerFailedLogin(
+  client: TransactionClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ failedAttempts: number; lockedUntil: Date | null }> {
+  await client.user.updateMany({
+    where: { id: userId, lockedUntil: { lte: now } },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null
+    }
+  });
+
+  const user = await client.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: { increment: 1 },
+      lastFailedLoginAt: now
+    },
+    select: { failedLoginAttempts: true }
+  });
+
+  if (user.failedLoginAttempts < LOGIN_PROTECTION.MAX_FAILED_ATTEMPTS) {
+    return { failedAttempts: user.failedLoginAttempts, lockedUntil: null };
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOGIN_PROTECTION.LOCKOUT_MINUTES * 60 * 1000);
+  await client.user.update({
+    where: { id: userId },
+    data: { lockedUntil }
+  });
+
+  return { failedAttempts: user.failedLoginAttempts, lockedUntil };
+}
+
+/**
+ * Limpiar fallos y bloqueo (login exitoso o desbloqueo manual)
+ */
+export async function resetFailedLogins(client: TransactionClient, userId: string): Promise<void> {
+  await client.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+}
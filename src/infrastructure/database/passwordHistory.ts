@@ -0,0 +1,89 @@
+import bcrypt from 'bcryptjs';
+import { getPasswordPolicy, PasswordPolicy } from '../../shared/utils/passwords';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// HISTORIAL DE CONTRASEÑAS
+// Toda contraseña nueva pasa por setUserPassword, que guarda su hash
+// en el historial y conserva solo las últimas HISTORY_SIZE
+// ====================================================================
+
+/**
+ * La contraseña coincide con la actual o con alguna de las últimas del historial
+ */
+export async function isPasswordReused(
+  client: TransactionClient,
+  userId: string,
+  password: string,
+  policy: PasswordPolicy = getPasswordPolicy()
+): Promise<boolean> {
+  if (policy.historySize === 0) {
+    return false;
+  }
+
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: {
+      password: true,
+      passwordHistory: {
+        select: { passwordHash: true },
+        orderBy: { createdAt: 'desc' },
+        take: policy.historySize
+      }
+    }
+  });
+
+  if (!user) {
+    return false;
+  }
+
+  // La actual se incluye siempre: los usuarios previos al historial no tienen filas
+  const hashes = new Set([user.password, ...user.passwordHistory.map(entry => entry.passwordHash)]);
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Guardar una contraseña nueva (ya validada) y registrarla en el historial
+ */
+export async function setUserPassword(
+  client: TransactionClient,
+  userId: string,
+  password: string,
+  options: { mustChangePassword: boolean },
+  policy: PasswordPolicy = getPasswordPolicy()
+): Promise<void> {
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  await client.user.update({
+    where: { id: userId },
+    data: {
+      password: passwordHash,
+      passwordChangedAt: new Date(),
+      mustChangePassword: options.mustChangePassword
+    }
+  });
+
+  await client.passwordHistory.create({
+    data: { userId, passwordHash }
+  });
+
+  const staleEntries = await client.passwordHistory.findMany({
+    where: { userId },
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+    skip: Math.max(policy.historySize, 1)
+  });
+
+  if (staleEntries.length > 0) {
+    await client.passwordHistory.deleteMany({
+      where: { id: { in: staleEntries.map(entry => entry.id) } }
+    });
+  }
+}
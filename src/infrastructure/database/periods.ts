@@ -0,0 +1,24 @@
+import { PeriodRange } from '../../shared/utils/period';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// PERÍODOS DE NÓMINA
+// Un período cerrado (MonthlySummary.isClosed) ya no admite cambios
+// en la asistencia, la alimentación ni las horas extras de sus fechas
+// ====================================================================
+
+/**
+ * Indica si el período ya fue cerrado
+ */
+export async function isPeriodClosed(client: TransactionClient, range: PeriodRange): Promise<boolean> {
+  const closedSummary = await client.monthlySummary.findFirst({
+    where: {
+      periodStart: range.periodStart,
+      periodEnd: range.periodEnd,
+      isClosed: true
+    },
+    select: { id: true }
+  });
+
+  return !!closedSummary;
+}
@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+import { WORKING_HOURS } from '../../shared/constants';
+import { TransactionClient } from './client';
+
+// ====================================================================
+// HORARIO EFECTIVO
+// Prioridad: turno asignado al empleado → horario del área → WORKING_HOURS
+// ====================================================================
+
+export type ScheduleSource = 'SHIFT' | 'AREA' | 'DEFAULT';
+
+export interface EffectiveSchedule {
+  source: ScheduleSource;
+  scheduleId: string | null;
+  scheduleName: string | null;
+  entryTime: string;
+  exitTime: string;
+  lunchDuration: number;
+  workingHours: number;
+}
+
+export interface ScheduleEmployee {
+  id: string;
+  area: {
+    defaultEntryTime: Date;
+    defaultExitTime: Date;
+    defaultLunchDuration: number;
+    defaultWorkingHours: number;
+  } | null;
+}
+
+// Campos de área necesarios para resolver el horario
+export const AREA_SCHEDULE_SELECT = {
+  defaultEntryTime: true,
+  defaultExitTime: true,
+  defaultLunchDuration: true,
+  defaultWorkingHours: true
+} satisfies Prisma.AreaSelect;
+
+function formatTimeToString(date: Date): string {
+  return date.toISOString().substr(11, 5);
+}
+
+function getFallbackSchedule(employee: ScheduleEmployee): EffectiveSchedule {
+  if (employee.area) {
+    return {
+      source: 'AREA',
+      scheduleId: null,
+      scheduleName: null,
+      entryTime: formatTimeToString(employee.area.defaultEntryTime),
+      exitTime: formatTimeToString(employee.area.defaultExitTime),
+      lunchDuration: employee.area.defaultLunchDuration,
+      workingHours: employee.area.defaultWorkingHours
+    };
+  }
+
+  return {
+    source: 'DEFAULT',
+    scheduleId: null,
+    scheduleName: null,
+    entryTime: WORKING_HOURS.DEFAULT_ENTRY_TIME,
+    exitTime: WORKING_HOURS.DEFAULT_EXIT_TIME,
+    lunchDuration: WORKING_HOURS.DEFAULT_LUNCH_DURATION,
+    workingHours: WORKING_HOURS.DEFAULT_WORKING_HOURS
+  };
+}
+
+/**
+ * Resolver en una sola consulta el horario efectivo de cada empleado para una fecha.
+ * Si varias asignaciones cubren la fecha, gana la que empezó más recientemente.
+ */
+export async function resolveEffectiveSchedules(
+  client: TransactionClient,
+  employees: ScheduleEmployee[],
+  dateObj: Date
+): Promise<Map<string, EffectiveSchedule>> {
+  const assignments = employees.length === 0 ? [] : await client.shiftAssignment.findMany({
+    where: {
+      employeeId: { in: employees.map(employee => employee.id) },
+      startDate: { lte: dateObj },
+      OR: [
+        { endDate: null },
+        { endDate: { gte: dateObj } }
+      ],
+      schedule: { isActive: true }
+    },
+    include: { schedule: true },
+    orderBy: { startDate: 'desc' }
+  });
+
+  const shiftByEmployee = new Map<string, EffectiveSchedule>();
+  for (const assignment of assignments) {
+    if (shiftByEmployee.has(assignment.employeeId)) {
+      continue;
+    }
+
+    shiftByEmployee.set(assignment.employeeId, {
+      source: 'SHIFT',
+      scheduleId: assignment.schedule.id,
+      scheduleName: assignment.schedule.name,
+      entryTime: formatTimeToString(assignment.schedule.entryTime),
+      exitTime: formatTimeToString(assignment.schedule.exitTime),
+      lunchDuration: assignment.schedule.lunchDuration,
+      workingHours: assignment.schedule.workingHours
+    });
+  }
+
+  return new Map(employees.map(employee => [
+    employee.id,
+    shiftByEmployee.get(employee.id) || getFallbackSchedule(employee)
+  ]));
+}
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AUTH_TOKENS } from '../../shared/constants';
+import { DatabaseClient, TransactionClient } from './client';
+
+// ====================================================================
+// SESIONES
+// El access token (JWT corto) lleva el sessionId; el refresh token se
+// guarda solo como hash y se reemplaza por uno nuevo en cada uso
+// ====================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // segundos de vida del access token
+  refreshTokenExpiresAt: Date;
+}
+
+export type RefreshResult =
+  | { status: 'ROTATED'; user: SessionUser; tokens: SessionTokens }
+  | { status: 'INVALID' | 'EXPIRED' | 'REUSED' | 'INACTIVE_USER' };
+
+export function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function signAccessToken(user: SessionUser, sessionId: string): string {
+  return jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId
+    },
+    process.env.JWT_SECRET!,
+    { expiresIn: AUTH_TOKENS.ACCESS_TOKEN_MINUTES * 60 }
+  );
+}
+
+async function issueTokens(
+  client: TransactionClient,
+  user: SessionUser,
+  sessionId: string,
+  info: SessionClientInfo
+): Promise<{ id: string; tokens: SessionTokens }> {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const refreshTokenExpiresAt = new Date(Date.now() + AUTH_TOKENS.REFRESH_TOKEN_DAYS * MS_PER_DAY);
+
+  const stored = await client.refreshToken.create({
+    data: {
+      userId: user.id,
+      sessionId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: refreshTokenExpiresAt,
+      userAgent: info.userAgent?.substring(0, 255) || null,
+      ipAddress: info.ipAddress?.substring(0, 45) || null
+    }
+  });
+
+  return {
+    id: stored.id,
+    tokens: {
+      token: signAccessToken(user, sessionId),
+      refreshToken,
+      expiresIn: AUTH_TOKENS.ACCESS_TOKEN_MINUTES * 60,
+      refreshTokenExpiresAt
+    }
+  };
+}
+
+/**
+ * Abrir una sesión nueva (login)
+ */
+export async function createSession(
+  client: TransactionClient,
+  user: SessionUser,
+  info: SessionClientInfo
+): Promise<SessionTokens> {
+  const { tokens } = await issueTokens(client, user, crypto.randomUUID(), info);
+  return tokens;
+}
+
+/**
+ * Canjear un refresh token por un par nuevo dentro de la misma sesión.
+ * Reutilizar un token ya rotado indica robo: se revoca toda la sesión.
+ */
+export async function rotateRefreshToken(
+  client: DatabaseClient,
+  refreshToken: string,
+  info: SessionClientInfo
+): Promise<RefreshResult> {
+  const stored = await client.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshToken) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          isActive: true
+        }
+      }
+    }
+  });
+
+  if (!stored) {
+    return { status: 'INVALID' };
+  }
+
+  if (stored.revokedAt) {
+    if (stored.replacedById) {
+      await client.refreshToken.updateMany({
+        where: { sessionId: stored.sessionId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      return { status: 'REUSED' };
+    }
+    return { status: 'INVALID' };
+  }
+
+  if (stored.expiresAt <= new Date()) {
+    return { status: 'EXPIRED' };
+  }
+
+  if (!stored.user.isActive) {
+    return { status: 'INACTIVE_USER' };
+  }
+
+  const user: SessionUser = { id: stored.user.id, email: stored.user.email, role: stored.user.role };
+
+  return client.$transaction(async (tx): Promise<RefreshResult> => {
+    // Reclamar el token de forma atómica: dos canjes simultáneos no generan dos sesiones
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return { status: 'INVALID' };
+    }
+
+    const next = await issueTokens(tx, user, stored.sessionId, info);
+
+    await tx.refreshToken.update({
+      where: { id: stored.id },
+      data: { replacedById: next.id }
+    });
+
+    return { status: 'ROTATED', user, tokens: next.tokens };
+  });
+}
+
+/**
+ * Revocar una sesión del usuario (logout)
+ */
+export async function revokeSession(
+  client: TransactionClient,
+  userId: string,
+  sessionId: string
+): Promise<number> {
+  const result = await client.refreshToken.updateMany({
+    where: { userId, sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  return result.count;
+}
+
+/**
+ * Revocar todas las sesiones del usuario, opcionalmente conservando una
+ */
+export async function revokeAllSessions(
+  client: TransactionClient,
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const sessions = await client.refreshToken.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { sessionId: { not: exceptSessionId } })
+    },
+    select: { sessionId: true },
+    distinct: ['sessionId']
+  });
+
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  await client.refreshToken.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      sessionId: { in: sessions.map(session => session.sessionId) }
+    },
+    data: { revokedAt: new Date() }
+  });
+
+  return sessions.length;
+}
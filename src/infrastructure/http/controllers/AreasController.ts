@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../../server';
+import { canEdit, getCurrentUser } from '../middlewares/auth.middleware';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
 
 // Validadores Zod (ajustados al esquema real)
 const createAreaSchema = z.object({
@@ -35,6 +38,15 @@ const areasQuerySchema = z.object({
   search: z.string().optional()
 });
 
+// Empleados activos del área; un supervisor solo ve los de las áreas que supervisa
+function visibleEmployeesWhere(req: Request): Prisma.EmployeeWhereInput {
+  const allowedAreaIds = getAllowedAreaIds(req);
+  return {
+    isActive: true,
+    ...(allowedAreaIds && { areaId: { in: allowedAreaIds } })
+  };
+}
+
 // Helper para formatear hora de Date a string HH:mm
 function formatTimeToString(date: Date): string {
   // Para campos @db.Time, Prisma devuelve un Date pero solo nos interesa HH:mm
@@ -46,6 +58,10 @@ function createTimeDate(timeString: string): Date {
   return new Date(`1970-01-01T${timeString}:00.000Z`);
 }
 
+const assignSupervisorSchema = z.object({
+  userId: z.string().uuid('ID de usuario inválido')
+});
+
 export class AreasController {
   
   /**
@@ -68,7 +84,7 @@ export class AreasController {
         include: {
           ...(query.includeEmployees && {
             employees: {
-              where: { isActive: true },
+              where: visibleEmployeesWhere(req),
               select: {
                 id: true,
                 identification: true,
@@ -96,6 +112,9 @@ export class AreasController {
         orderBy: { name: 'asc' }
       });
 
+      // El salario solo es visible para ADMIN/EDITOR
+      const showSalary = canEdit(req);
+
       // Formatear respuesta
       const formattedAreas = areas.map(area => ({
         id: area.id,
@@ -113,7 +132,7 @@ export class AreasController {
             firstName: emp.firstName,
             lastName: emp.lastName,
             position: emp.position,
-            baseSalary: emp.baseSalary,
+            ...(showSalary && { baseSalary: emp.baseSalary }),
             isActive: emp.isActive,
             createdAt: emp.createdAt
           }))
@@ -161,7 +180,7 @@ export class AreasController {
         where: { id },
         include: {
           employees: {
-            where: { isActive: true },
+            where: visibleEmployeesWhere(req),
             select: {
               id: true,
               identification: true,
@@ -195,6 +214,8 @@ export class AreasController {
         return;
       }
 
+      const showSalary = canEdit(req);
+
       // Formatear respuesta
       const formattedArea = {
         id: area.id,
@@ -211,7 +232,7 @@ export class AreasController {
           firstName: emp.firstName,
           lastName: emp.lastName,
           position: emp.position,
-          baseSalary: emp.baseSalary,
+          ...(showSalary && { baseSalary: emp.baseSalary }),
           isActive: emp.isActive,
           createdAt: emp.createdAt
         })),
@@ -480,4 +501,200 @@ export class AreasController {
       });
     }
   }
+
+  /**
+   * GET /api/areas/:id/supervisors
+   * Listar los usuarios que supervisan el área (solo ADMIN)
+   */
+  static async getSupervisors(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const area = await prisma.area.findUnique({
+        where: { id },
+        include: {
+          userAssignments: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  email: true,
+                  role: true,
+                  isActive: true,
+                  employee: {
+                    select: {
+                      firstName: true,
+                      lastName: true
+                    }
+                  }
+                }
+              }
+            },
+            orderBy: { createdAt: 'asc' }
+          }
+        }
+      });
+
+      if (!area) {
+        res.status(404).json({
+          success: false,
+          message: 'Área no encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          areaId: area.id,
+          areaName: area.name,
+          supervisors: area.userAssignments.map(assignment => ({
+            assignmentId: assignment.id,
+            userId: assignment.user.id,
+            email: assignment.user.email,
+            role: assignment.user.role,
+            isActive: assignment.user.isActive,
+            fullName: `${assignment.user.employee.firstName} ${assignment.user.employee.lastName}`,
+            assignedBy: assignment.assignedBy,
+            assignedAt: assignment.createdAt
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al obtener supervisores del área:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/areas/:id/supervisors
+   * Asignar un usuario como supervisor del área (solo ADMIN)
+   * Salvo ADMIN o acceso a todas las áreas, el usuario solo accede a las áreas que supervisa
+   */
+  static async assignSupervisor(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { userId } = assignSupervisorSchema.parse(req.body);
+
+      const [area, user] = await Promise.all([
+        prisma.area.findUnique({ where: { id }, select: { id: true, name: true } }),
+        prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, role: true, allAreas: true } })
+      ]);
+
+      if (!area) {
+        res.status(404).json({
+          success: false,
+          message: 'Área no encontrada'
+        });
+        return;
+      }
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      const existingAssignment = await prisma.userAreaAssignment.findUnique({
+        where: { userId_areaId: { userId, areaId: id } }
+      });
+
+      if (existingAssignment) {
+        res.status(409).json({
+          success: false,
+          message: `El usuario ${user.email} ya supervisa el área ${area.name}`
+        });
+        return;
+      }
+
+      const assignment = await prisma.userAreaAssignment.create({
+        data: {
+          userId,
+          areaId: id,
+          assignedBy: getCurrentUser(req)?.id || null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Usuario ${user.email} asignado como supervisor de ${area.name}`,
+        data: {
+          assignmentId: assignment.id,
+          userId: assignment.userId,
+          areaId: assignment.areaId,
+          // Los ADMIN y los usuarios con allAreas no se restringen por área aunque tengan asignaciones
+          restricted: user.role !== 'ADMIN' && !user.allAreas,
+          assignedBy: assignment.assignedBy,
+          assignedAt: assignment.createdAt
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al asignar supervisor:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/areas/:id/supervisors/:userId
+   * Quitar a un usuario la supervisión del área (solo ADMIN)
+   */
+  static async removeSupervisor(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      const assignment = await prisma.userAreaAssignment.findUnique({
+        where: { userId_areaId: { userId, areaId: id } }
+      });
+
+      if (!assignment) {
+        res.status(404).json({
+          success: false,
+          message: 'El usuario no supervisa esta área'
+        });
+        return;
+      }
+
+      await prisma.userAreaAssignment.delete({
+        where: { id: assignment.id }
+      });
+
+      const remainingAssignments = await prisma.userAreaAssignment.count({
+        where: { userId }
+      });
+
+      res.json({
+        success: true,
+        message: 'Supervisión del área retirada exitosamente',
+        data: {
+          remainingAreas: remainingAssignments
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al retirar supervisor:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
 }
\ No newline at end of file
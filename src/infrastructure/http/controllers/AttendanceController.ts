@@ -1,7 +1,37 @@
-import { Request, Response } from 'express';
+﻿import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
 import { Decimal } from '@prisma/client/runtime/library';
+import { DayType, getDayType } from '../../../shared/utils/calendar';
+import { calculateRecordHours } from '../../../shared/utils/attendanceHours';
+import {
+  BulkAttendanceInput,
+  BulkAttendancePlan,
+  BulkEmployee,
+  BulkMode,
+  BulkPermissionType,
+  BulkRowError,
+  BulkSkippedRecord,
+  findExistingAttendance,
+  PlannedAttendanceRow,
+  persistBulkAttendance,
+  planBulkAttendance
+} from '../../database/bulkAttendance';
+import { AREA_SCHEDULE_SELECT, resolveEffectiveSchedules, ScheduleSource } from '../../database/schedules';
+import { createAreaResolver } from '../../database/employmentHistory';
+import { isPeriodClosed } from '../../database/periods';
+import { timeToMinutes } from '../../../shared/utils/timeIntervals';
+import { DEFAULT_FOOD_ALLOWANCE, VACATION_FOOD_ALLOWANCE } from '../../../shared/constants';
+import { formatDateToString, getPeriodForDate } from '../../../shared/utils/period';
+import {
+  AttendanceSheetTemplateRow,
+  readAttendanceSheet,
+  writeAttendanceSheet
+} from '../../spreadsheets/attendanceSheet';
+import { SHEET_CONTENT_TYPES, SheetFormat } from '../../spreadsheets/workbook';
 
 // Validadores Zod
 const foodAllowanceSchema = z.object({
@@ -26,18 +56,27 @@ const attendanceRecordSchema = z.object({
   isVacation: z.boolean().default(false),
   permissionHours: z.number().min(0).max(12).optional().default(0),
   permissionReason: z.string().max(500).optional(),
+  // Los permisos de tipo remunerado no descuentan horas trabajadas
+  permissionTypeId: z.string().uuid('ID de tipo de permiso inválido').optional(),
+  permissionDocument: z.string().max(150).optional(),
   foodAllowance: foodAllowanceSchema.optional().default({}),
   // Campos calculados automáticamente
   workedHours: z.number().optional(),
   nightHours: z.number().optional().default(0),
   supplementaryHours: z.number().optional().default(0),
   extraordinaryHours: z.number().optional().default(0)
+}).refine(data => !data.permissionTypeId || data.permissionHours > 0, {
+  message: 'El tipo de permiso requiere horas de permiso mayores a 0',
+  path: ['permissionHours']
 });
 
 const bulkAttendanceSchema = z.object({
   date: z.string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  // Obsoleto: se registra siempre el usuario autenticado
   registeredBy: z.string().uuid('ID de usuario inválido').optional(),
+  // create: rechaza existentes | upsert: sobrescribe existentes | skip: omite existentes
+  mode: z.enum(['create', 'upsert', 'skip']).default('create'),
   records: z.array(attendanceRecordSchema)
     .min(1, 'Debe incluir al menos un registro')
     .max(1000, 'No puede procesar más de 1000 registros a la vez') // Límite de seguridad
@@ -51,6 +90,16 @@ const templateQuerySchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
 });
 
+const templateFormatSchema = z.enum(['xlsx', 'csv'], {
+  errorMap: () => ({ message: 'Formato inválido (xlsx o csv)' })
+});
+
+const importBodySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  mode: z.enum(['create', 'upsert', 'skip']).default('create')
+});
+
 const verifyQuerySchema = z.object({
   date: z.string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
@@ -59,6 +108,79 @@ const verifyQuerySchema = z.object({
     .transform(val => val ? val.split(',').map(id => id.trim()) : undefined)
 });
 
+const attendanceQuerySchema = z.object({
+  employeeId: z.string()
+    .uuid('ID de empleado inválido')
+    .optional(),
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  page: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val) : 1)
+    .default('1'),
+  limit: z.string()
+    .optional()
+    .transform(val => val ? Math.min(parseInt(val), 500) : 50)
+    .default('50')
+});
+
+const updateAttendanceSchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  entryTime: z.string()
+    .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:mm)')
+    .nullable()
+    .optional(),
+  exitTime: z.string()
+    .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:mm)')
+    .nullable()
+    .optional(),
+  lunchDuration: z.number().int().min(0).max(180).optional(),
+  isVacation: z.boolean().optional(),
+  permissionHours: z.number().min(0).max(12).optional(),
+  permissionReason: z.string().max(500).nullable().optional(),
+  permissionTypeId: z.string().uuid('ID de tipo de permiso inválido').nullable().optional(),
+  permissionDocument: z.string().max(150).nullable().optional(),
+  foodAllowance: foodAllowanceSchema.partial().optional()
+});
+
+// Relaciones incluidas al consultar registros individuales
+const attendanceRecordInclude = {
+  employee: {
+    select: {
+      id: true,
+      identification: true,
+      firstName: true,
+      lastName: true,
+      area: {
+        select: {
+          id: true,
+          name: true,
+          defaultWorkingHours: true
+        }
+      }
+    }
+  },
+  permissionType: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      isPaid: true,
+      requiresDocument: true
+    }
+  },
+  foodAllowance: true,
+  extraHours: true
+} satisfies Prisma.AttendanceRecordInclude;
+
+type AttendanceRecordWithRelations = Prisma.AttendanceRecordGetPayload<{ include: typeof attendanceRecordInclude }>;
+
 // Helper functions
 function createTimeDate(timeString: string): Date {
   return new Date(`1970-01-01T${timeString}:00.000Z`);
@@ -68,47 +190,323 @@ function formatTimeToString(date: Date): string {
   return date.toISOString().substr(11, 5);
 }
 
-function calculateWorkedHours(entryTime: string, exitTime: string, lunchDuration: number, permissionHours: number = 0): number {
-  const entry = new Date(`1970-01-01T${entryTime}:00`);
-  const exit = new Date(`1970-01-01T${exitTime}:00`);
-  
-  let diffMs = exit.getTime() - entry.getTime();
-  
-  // Si la salida es antes que la entrada, asumimos que cruzó medianoche
-  if (diffMs < 0) {
-    diffMs += 24 * 60 * 60 * 1000; // Añadir 24 horas
+// Empleados activos con el horario efectivo de la fecha para el cálculo de horas
+async function findActiveEmployees(employeeIds: string[], dateObj: Date) {
+  const employees = await prisma.employee.findMany({
+    where: { 
+      id: { in: employeeIds },
+      isActive: true 
+    },
+    include: {
+      area: {
+        select: {
+          id: true,
+          name: true,
+          ...AREA_SCHEDULE_SELECT
+        }
+      }
+    }
+  });
+
+  const schedules = await resolveEffectiveSchedules(prisma, employees, dateObj);
+
+  return employees.map(employee => ({ ...employee, schedule: schedules.get(employee.id)! }));
+}
+
+// Tipos de permiso referenciados por los registros, para clasificar remunerados y no remunerados
+async function findPermissionTypes(records: BulkAttendanceInput[]): Promise<Map<string, BulkPermissionType>> {
+  const permissionTypeIds = Array.from(new Set(
+    records.map(record => record.permissionTypeId).filter((id): id is string => !!id)
+  ));
+
+  if (permissionTypeIds.length === 0) {
+    return new Map();
   }
-  
-  const totalHours = diffMs / (1000 * 60 * 60);
-  const lunchHours = lunchDuration / 60;
-  
-  return Math.max(0, totalHours - lunchHours - permissionHours);
+
+  const permissionTypes = await prisma.permissionType.findMany({
+    where: { id: { in: permissionTypeIds } }
+  });
+
+  return new Map(permissionTypes.map(permissionType => [permissionType.id, permissionType]));
+}
+
+interface RecordWarning {
+  code: 'EXIT_BEFORE_ENTRY' | 'EXCESSIVE_HOURS' | 'VACATION_WITH_MEALS' | 'PERMISSION_WITHOUT_REASON'
+    | 'PERMISSION_WITHOUT_TYPE' | 'PERMISSION_WITHOUT_DOCUMENT';
+  message: string;
 }
 
-function calculateExtraHours(workedHours: number, defaultWorkingHours: number) {
-  const baseHours = defaultWorkingHours || 8;
-  
-  if (workedHours <= baseHours) {
-    return { nightHours: 0, supplementaryHours: 0, extraordinaryHours: 0 };
+// Fila del resultado de /bulk/validate según lo que se haría con el registro
+type BulkValidationRow =
+  | (PlannedAttendanceRow['hours'] & {
+    index: number;
+    employeeId: string;
+    identification: string;
+    name: string;
+    area?: string;
+    scheduleSource?: ScheduleSource;
+    scheduleName?: string | null;
+    action: 'create' | 'update';
+    warnings: RecordWarning[];
+  })
+  | (BulkSkippedRecord & { action: 'skip'; warnings: RecordWarning[] })
+  | (BulkRowError & { action: 'error'; warnings: RecordWarning[] });
+
+// Advertencias que no impiden guardar pero que María debe revisar
+function getRecordWarnings(
+  record: BulkAttendanceInput,
+  workedHours: number,
+  permissionType: BulkPermissionType | null = null
+): RecordWarning[] {
+  const warnings: RecordWarning[] = [];
+
+  if (record.entryTime && record.exitTime && timeToMinutes(record.exitTime) < timeToMinutes(record.entryTime)) {
+    warnings.push({
+      code: 'EXIT_BEFORE_ENTRY',
+      message: `La salida (${record.exitTime}) es anterior a la entrada (${record.entryTime}); se asume que el turno cruzó medianoche`
+    });
+  }
+
+  if (workedHours > 12) {
+    warnings.push({
+      code: 'EXCESSIVE_HOURS',
+      message: `Horas trabajadas (${workedHours.toFixed(2)}) superan las 12 horas`
+    });
+  }
+
+  const food = record.foodAllowance;
+  const mealsCount = food
+    ? (food.breakfast || 0) + (food.reinforcedBreakfast || 0) + (food.snack1 || 0) +
+      (food.afternoonSnack || 0) + (food.dryMeal || 0) + (food.lunch || 0)
+    : 0;
+
+  if (record.isVacation && mealsCount > 0) {
+    warnings.push({
+      code: 'VACATION_WITH_MEALS',
+      message: `Empleado de vacaciones con ${mealsCount} comida(s) registrada(s)`
+    });
+  }
+
+  if ((record.permissionHours || 0) > 0 && !permissionType) {
+    warnings.push({
+      code: 'PERMISSION_WITHOUT_TYPE',
+      message: 'Horas de permiso sin tipo; se descuentan como permiso no remunerado'
+    });
+
+    if (!record.permissionReason?.trim()) {
+      warnings.push({
+        code: 'PERMISSION_WITHOUT_REASON',
+        message: 'Horas de permiso sin razón registrada'
+      });
+    }
   }
-  
-  const extraHours = workedHours - baseHours;
-  
-  // Lógica simplificada para tipos de horas extras
-  // En un sistema real, esto dependería de horarios específicos y políticas de la empresa
-  if (extraHours <= 2) {
-    return { 
-      nightHours: 0, 
-      supplementaryHours: extraHours, 
-      extraordinaryHours: 0 
-    };
-  } else {
-    return { 
-      nightHours: 0, 
-      supplementaryHours: 2, 
-      extraordinaryHours: extraHours - 2 
-    };
+
+  if (permissionType?.requiresDocument && !record.permissionDocument?.trim()) {
+    warnings.push({
+      code: 'PERMISSION_WITHOUT_DOCUMENT',
+      message: `El permiso "${permissionType.name}" requiere documento de respaldo`
+    });
   }
+
+  return warnings;
+}
+
+// Guardar el plan de registros en una sola transacción con escrituras por lotes
+async function saveBulkAttendance(params: {
+  dateObj: Date;
+  mode: BulkMode;
+  records: BulkAttendanceInput[];
+  employeeMap: Map<string, BulkEmployee>;
+  dayType: DayType;
+  registeredBy: string | null;
+}) {
+  const { dateObj, mode, records, employeeMap, dayType, registeredBy } = params;
+  const permissionTypeMap = await findPermissionTypes(records);
+
+  return prisma.$transaction(async (tx) => {
+    const existingByEmployee = await findExistingAttendance(tx, dateObj, Array.from(employeeMap.keys()));
+    const bulkPlan = planBulkAttendance({ records, employeeMap, permissionTypeMap, existingByEmployee, mode, dayType });
+
+    await persistBulkAttendance(tx, dateObj, bulkPlan.rows, registeredBy);
+
+    return bulkPlan;
+  }, { timeout: 30000 });
+}
+
+// Clasificar el día (laborable, fin de semana o feriado) según el calendario
+async function getDayTypeForDate(dateObj: Date) {
+  const holiday = await prisma.holiday.findUnique({
+    where: { date: dateObj }
+  });
+
+  return { dayType: getDayType(dateObj, !!holiday), holiday };
+}
+
+function decimalToNumber(value: Decimal | null | undefined): number {
+  return value ? parseFloat(value.toString()) : 0;
+}
+
+function formatAttendanceRecord(record: AttendanceRecordWithRelations) {
+  return {
+    id: record.id,
+    employeeId: record.employee.id,
+    identification: record.employee.identification,
+    fullName: `${record.employee.firstName} ${record.employee.lastName}`,
+    area: record.employee.area ? {
+      id: record.employee.area.id,
+      name: record.employee.area.name
+    } : null,
+    date: formatDateToString(record.date),
+    entryTime: record.entryTime ? formatTimeToString(record.entryTime) : null,
+    exitTime: record.exitTime ? formatTimeToString(record.exitTime) : null,
+    lunchDuration: record.lunchDuration,
+    workedHours: decimalToNumber(record.workedHours),
+    isVacation: record.isVacation,
+    permissionHours: decimalToNumber(record.permissionHours),
+    permissionReason: record.permissionReason,
+    permissionType: record.permissionType,
+    permissionDocument: record.permissionDocument,
+    registeredBy: record.registeredBy,
+    foodAllowance: record.foodAllowance ? {
+      breakfast: record.foodAllowance.breakfast,
+      reinforcedBreakfast: record.foodAllowance.reinforcedBreakfast,
+      snack1: record.foodAllowance.snack1,
+      afternoonSnack: record.foodAllowance.afternoonSnack,
+      dryMeal: record.foodAllowance.dryMeal,
+      lunch: record.foodAllowance.lunch,
+      transport: decimalToNumber(record.foodAllowance.transport)
+    } : null,
+    extraHours: {
+      nightHours: decimalToNumber(record.extraHours?.nightHours),
+      supplementaryHours: decimalToNumber(record.extraHours?.supplementaryHours),
+      extraordinaryHours: decimalToNumber(record.extraHours?.extraordinaryHours)
+    },
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+/**
+ * Plantilla de registro con los valores por defecto de cada área.
+ * Compartida por la respuesta JSON y las descargas XLSX/CSV.
+ */
+async function buildAttendanceTemplate(areaIds: string[], date: string) {
+  // Verificar que todas las áreas existen
+  const areas = await prisma.area.findMany({
+    where: { id: { in: areaIds } },
+    include: {
+      employees: {
+        where: { isActive: true },
+        select: {
+          id: true,
+          identification: true,
+          firstName: true,
+          lastName: true,
+          position: true,
+          baseSalary: true
+        },
+        orderBy: [
+          { lastName: 'asc' },
+          { firstName: 'asc' }
+        ]
+      }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  if (areas.length !== areaIds.length) {
+    const foundIds = areas.map(area => area.id);
+    return { notFoundIds: areaIds.filter(id => !foundIds.includes(id)) };
+  }
+
+  // Verificar qué empleados ya tienen registro para esta fecha
+  const existingRecords = await prisma.attendanceRecord.findMany({
+    where: {
+      date: new Date(date),
+      employee: {
+        areaId: { in: areaIds }
+      }
+    },
+    select: { employeeId: true }
+  });
+
+  const employeesWithRecords = new Set(existingRecords.map(record => record.employeeId));
+
+  // Vacaciones aprobadas que cubren la fecha: se pre-cargan como día de vacaciones
+  const approvedVacations = await prisma.vacationRequest.findMany({
+    where: {
+      status: 'APPROVED',
+      startDate: { lte: new Date(date) },
+      endDate: { gte: new Date(date) },
+      employee: {
+        areaId: { in: areaIds }
+      }
+    },
+    select: { employeeId: true }
+  });
+
+  const employeesOnVacation = new Set(approvedVacations.map(request => request.employeeId));
+
+  // Horario efectivo de cada empleado: turno asignado → horario del área → WORKING_HOURS
+  const schedules = await resolveEffectiveSchedules(
+    prisma,
+    areas.flatMap(area => area.employees.map(emp => ({ id: emp.id, area }))),
+    new Date(date)
+  );
+
+  // Generar plantilla con valores por defecto
+  const template = {
+    date,
+    areas: areas.map(area => ({
+      areaId: area.id,
+      areaName: area.name,
+      defaultEntryTime: formatTimeToString(area.defaultEntryTime),
+      defaultExitTime: formatTimeToString(area.defaultExitTime),
+      defaultLunchDuration: area.defaultLunchDuration,
+      defaultWorkingHours: area.defaultWorkingHours,
+      employees: area.employees.map(emp => {
+        const schedule = schedules.get(emp.id)!;
+
+        return {
+          employeeId: emp.id,
+          identification: emp.identification,
+          fullName: `${emp.firstName} ${emp.lastName}`,
+          firstName: emp.firstName,
+          lastName: emp.lastName,
+          position: emp.position,
+          baseSalary: emp.baseSalary,
+          hasExistingRecord: employeesWithRecords.has(emp.id),
+          hasApprovedVacation: employeesOnVacation.has(emp.id),
+          // Origen de los valores por defecto: SHIFT (turno asignado), AREA o DEFAULT
+          schedule: {
+            source: schedule.source,
+            scheduleId: schedule.scheduleId,
+            scheduleName: schedule.scheduleName,
+            workingHours: schedule.workingHours
+          },
+          // Valores por defecto pre-cargados
+          defaultValues: {
+            entryTime: schedule.entryTime,
+            exitTime: schedule.exitTime,
+            lunchDuration: schedule.lunchDuration,
+            isVacation: employeesOnVacation.has(emp.id),
+            permissionHours: 0,
+            permissionReason: '',
+            permissionTypeId: null,
+            foodAllowance: employeesOnVacation.has(emp.id)
+              ? { ...VACATION_FOOD_ALLOWANCE }
+              : { ...DEFAULT_FOOD_ALLOWANCE }
+          }
+        };
+      }),
+      employeesCount: area.employees.length,
+      employeesWithRecords: area.employees.filter(emp => employeesWithRecords.has(emp.id)).length,
+      employeesOnVacation: area.employees.filter(emp => employeesOnVacation.has(emp.id)).length,
+      employeesWithShift: area.employees.filter(emp => schedules.get(emp.id)?.source === 'SHIFT').length
+    }))
+  };
+
+  return { template, areas, existingRecords };
 }
 
 export class AttendanceController {
@@ -121,96 +519,17 @@ export class AttendanceController {
   static async getTemplate(req: Request, res: Response): Promise<void> {
     try {
       const { areaIds, date } = templateQuerySchema.parse(req.query);
-      
-      // Verificar que todas las áreas existen
-      const areas = await prisma.area.findMany({
-        where: { id: { in: areaIds } },
-        include: {
-          employees: {
-            where: { isActive: true },
-            select: {
-              id: true,
-              identification: true,
-              firstName: true,
-              lastName: true,
-              position: true,
-              baseSalary: true
-            },
-            orderBy: [
-              { lastName: 'asc' },
-              { firstName: 'asc' }
-            ]
-          }
-        },
-        orderBy: { name: 'asc' }
-      });
+      const result = await buildAttendanceTemplate(areaIds, date);
 
-      if (areas.length !== areaIds.length) {
-        const foundIds = areas.map(area => area.id);
-        const notFoundIds = areaIds.filter(id => !foundIds.includes(id));
-        
+      if (result.notFoundIds) {
         res.status(404).json({
           success: false,
-          message: `Áreas no encontradas: ${notFoundIds.join(', ')}`
+          message: `Áreas no encontradas: ${result.notFoundIds.join(', ')}`
         });
         return;
       }
 
-      // Verificar qué empleados ya tienen registro para esta fecha
-      const existingRecords = await prisma.attendanceRecord.findMany({
-        where: {
-          date: new Date(date),
-          employee: {
-            areaId: { in: areaIds }
-          }
-        },
-        select: { employeeId: true }
-      });
-
-      const employeesWithRecords = new Set(existingRecords.map(record => record.employeeId));
-
-      // Generar plantilla con valores por defecto
-      const template = {
-        date,
-        areas: areas.map(area => ({
-          areaId: area.id,
-          areaName: area.name,
-          defaultEntryTime: formatTimeToString(area.defaultEntryTime),
-          defaultExitTime: formatTimeToString(area.defaultExitTime),
-          defaultLunchDuration: area.defaultLunchDuration,
-          defaultWorkingHours: area.defaultWorkingHours,
-          employees: area.employees.map(emp => ({
-            employeeId: emp.id,
-            identification: emp.identification,
-            fullName: `${emp.firstName} ${emp.lastName}`,
-            firstName: emp.firstName,
-            lastName: emp.lastName,
-            position: emp.position,
-            baseSalary: emp.baseSalary,
-            hasExistingRecord: employeesWithRecords.has(emp.id),
-            // Valores por defecto pre-cargados
-            defaultValues: {
-              entryTime: formatTimeToString(area.defaultEntryTime),
-              exitTime: formatTimeToString(area.defaultExitTime),
-              lunchDuration: area.defaultLunchDuration,
-              isVacation: false,
-              permissionHours: 0,
-              permissionReason: '',
-              foodAllowance: {
-                breakfast: 1,
-                reinforcedBreakfast: 0,
-                snack1: 1,
-                afternoonSnack: 0,
-                dryMeal: 0,
-                lunch: 1,
-                transport: 0
-              }
-            }
-          })),
-          employeesCount: area.employees.length,
-          employeesWithRecords: area.employees.filter(emp => employeesWithRecords.has(emp.id)).length
-        }))
-      };
+      const { template, areas, existingRecords } = result;
 
       const totalEmployees = areas.reduce((sum, area) => sum + area.employees.length, 0);
       const totalWithRecords = existingRecords.length;
@@ -232,13 +551,409 @@ export class AttendanceController {
       if (error instanceof z.ZodError) {
         res.status(400).json({
           success: false,
-          message: 'Parámetros inválidos',
+          message: 'Parámetros inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar plantilla:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/attendance/bulk
+   * Guardado masivo de registros de asistencia
+   * CRÍTICO PARA MARÍA: Guarda 615 registros en una sola transacción
+   */
+  static async bulkCreate(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      const { date, mode, records } = bulkAttendanceSchema.parse(req.body);
+      const dateObj = new Date(date);
+
+      if (await isPeriodClosed(prisma, getPeriodForDate(dateObj))) {
+        res.status(409).json({
+          success: false,
+          message: `No se pueden registrar asistencias del ${date}: el período está cerrado`
+        });
+        return;
+      }
+
+      // Validar que todos los empleados existen
+      const employeeIds = records.map(record => record.employeeId);
+      const employees = await findActiveEmployees(employeeIds, dateObj);
+
+      if (employees.length !== new Set(employeeIds).size) {
+        const foundIds = employees.map(emp => emp.id);
+        const notFoundIds = employeeIds.filter(id => !foundIds.includes(id));
+        
+        res.status(404).json({
+          success: false,
+          message: `Empleados no encontrados o inactivos: ${notFoundIds.slice(0, 5).join(', ')}${notFoundIds.length > 5 ? ` y ${notFoundIds.length - 5} más` : ''}`
+        });
+        return;
+      }
+
+      // Crear mapa de empleados para lookup rápido
+      const employeeMap = new Map(employees.map(emp => [emp.id, emp]));
+
+      const { dayType, holiday } = await getDayTypeForDate(dateObj);
+
+      // Procesar registros en transacción con escrituras por lotes
+      const plan = await saveBulkAttendance({
+        dateObj,
+        mode,
+        records,
+        employeeMap,
+        dayType,
+        registeredBy: getCurrentUser(req)?.id || null
+      });
+
+      const processedRecords = plan.rows.map(row => ({
+        employeeId: row.record.employeeId,
+        identification: row.employee.identification,
+        name: `${row.employee.firstName} ${row.employee.lastName}`,
+        area: row.employee.area?.name,
+        workedHours: row.hours.workedHours,
+        scheduleSource: row.employee.schedule?.source,
+        status: row.isUpdate ? 'updated' : 'created'
+      }));
+
+      const createdCount = plan.rows.filter(row => !row.isUpdate).length;
+      const updatedCount = plan.rows.length - createdCount;
+
+      const endTime = Date.now();
+      const timeElapsed = ((endTime - startTime) / 1000).toFixed(2);
+
+      res.status(201).json({
+        success: true,
+        message: `Procesamiento completado en ${timeElapsed}s`,
+        data: {
+          date,
+          dayType,
+          ...(holiday && { holiday: holiday.name }),
+          mode,
+          processed: processedRecords.length,
+          created: createdCount,
+          updated: updatedCount,
+          skipped: plan.skippedRecords.length,
+          errors: plan.errors.length,
+          totalRequested: records.length,
+          successRate: `${(((processedRecords.length + plan.skippedRecords.length) / records.length) * 100).toFixed(1)}%`,
+          timeElapsed: `${timeElapsed}s`,
+          processedRecords,
+          ...(plan.skippedRecords.length > 0 && {
+            skippedRecords: plan.skippedRecords
+          }),
+          ...(plan.errors.length > 0 && {
+            errors: plan.errors.slice(0, 10), // Mostrar solo primeros 10 errores
+            totalErrors: plan.errors.length
+          })
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      const endTime = Date.now();
+      const timeElapsed = ((endTime - startTime) / 1000).toFixed(2);
+
+      console.error('Error en procesamiento masivo:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor durante el procesamiento masivo',
+        timeElapsed: `${timeElapsed}s`,
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * GET /api/attendance/template.xlsx | /api/attendance/template.csv
+   * Descargar la plantilla de registro como hoja de cálculo
+   * ÚTIL PARA SUPERVISORES: Llenar la asistencia en campo y subirla con /import
+   */
+  static async downloadTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const format: SheetFormat = templateFormatSchema.parse(req.params.format);
+      const { areaIds, date } = templateQuerySchema.parse(req.query);
+      const result = await buildAttendanceTemplate(areaIds, date);
+
+      if (result.notFoundIds) {
+        res.status(404).json({
+          success: false,
+          message: `Áreas no encontradas: ${result.notFoundIds.join(', ')}`
+        });
+        return;
+      }
+
+      const rows: AttendanceSheetTemplateRow[] = result.template.areas.flatMap(area =>
+        area.employees.map(emp => ({
+          employeeId: emp.employeeId,
+          identification: emp.identification,
+          fullName: emp.fullName,
+          areaName: area.areaName,
+          defaultValues: emp.defaultValues
+        }))
+      );
+
+      const file = await writeAttendanceSheet(date, rows, format);
+
+      res.setHeader('Content-Type', SHEET_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="asistencia-${date}.${format}"`);
+      res.send(file);
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar plantilla descargable:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/attendance/import
+   * Importar una planilla XLSX/CSV llena (multipart: file, date, mode)
+   * Las filas válidas se guardan con la misma lógica que POST /api/attendance/bulk
+   */
+  static async importSheet(req: Request, res: Response): Promise<void> {
+    try {
+      const { date, mode } = importBodySchema.parse(req.body);
+      const dateObj = new Date(date);
+
+      if (await isPeriodClosed(prisma, getPeriodForDate(dateObj))) {
+        res.status(409).json({
+          success: false,
+          message: `No se pueden registrar asistencias del ${date}: el período está cerrado`
+        });
+        return;
+      }
+      const file = req.file!;
+      const format: SheetFormat = file.originalname.toLowerCase().endsWith('.csv') ? 'csv' : 'xlsx';
+
+      let sheetRows;
+      try {
+        sheetRows = await readAttendanceSheet(file.buffer, format);
+      } catch (parseError) {
+        console.warn('Planilla ilegible:', parseError);
+        res.status(400).json({
+          success: false,
+          message: `No se pudo leer el archivo ${file.originalname}`
+        });
+        return;
+      }
+
+      if (sheetRows.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'La planilla no contiene registros'
+        });
+        return;
+      }
+
+      if (sheetRows.length > 1000) {
+        res.status(400).json({
+          success: false,
+          message: 'No puede procesar más de 1000 registros a la vez'
+        });
+        return;
+      }
+
+      // Filas sin ID de empleado se resuelven por cédula
+      const identifications = sheetRows
+        .filter(row => !row.record.employeeId && row.identification)
+        .map(row => row.identification!);
+      const employeesByIdentification = new Map(
+        (identifications.length > 0
+          ? await prisma.employee.findMany({
+            where: { identification: { in: identifications } },
+            select: { id: true, identification: true }
+          })
+          : []
+        ).map(emp => [emp.identification, emp.id])
+      );
+
+      const permissionTypeCodes = Array.from(new Set(
+        sheetRows.map(row => row.record.permissionTypeCode).filter((code): code is string => !!code)
+      ));
+      const permissionTypesByCode = new Map(
+        (permissionTypeCodes.length > 0
+          ? await prisma.permissionType.findMany({
+            where: { code: { in: permissionTypeCodes } },
+            select: { id: true, code: true }
+          })
+          : []
+        ).map(permissionType => [permissionType.code, permissionType.id])
+      );
+
+      const rowErrors: { row: number; employeeId?: string; identification?: string; errors: string[] }[] = [];
+      const validRows: { rowNumber: number; record: z.infer<typeof attendanceRecordSchema> }[] = [];
+
+      sheetRows.forEach(sheetRow => {
+        const employeeId = sheetRow.record.employeeId
+          || (sheetRow.identification && employeesByIdentification.get(sheetRow.identification));
+        const errors = [...sheetRow.errors];
+
+        if (!employeeId) {
+          errors.push(sheetRow.identification
+            ? `No existe empleado con cédula ${sheetRow.identification}`
+            : 'Debe indicar el ID de empleado o la cédula');
+        }
+
+        const { permissionTypeCode } = sheetRow.record;
+        const permissionTypeId = permissionTypeCode ? permissionTypesByCode.get(permissionTypeCode) : undefined;
+
+        if (permissionTypeCode && !permissionTypeId) {
+          errors.push(`No existe tipo de permiso con código ${permissionTypeCode}`);
+        }
+
+        const parsed = attendanceRecordSchema.safeParse({ ...sheetRow.record, employeeId, permissionTypeId });
+        if (!parsed.success) {
+          errors.push(...parsed.error.errors.map(issue =>
+            issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+          ));
+        }
+
+        if (errors.length > 0 || !parsed.success) {
+          rowErrors.push({
+            row: sheetRow.rowNumber,
+            employeeId: sheetRow.record.employeeId,
+            identification: sheetRow.identification,
+            errors: Array.from(new Set(errors))
+          });
+          return;
+        }
+
+        validRows.push({ rowNumber: sheetRow.rowNumber, record: parsed.data });
+      });
+
+      let plan: BulkAttendancePlan = { rows: [], skippedRecords: [], errors: [] };
+      const dayInfo = await getDayTypeForDate(dateObj);
+
+      // Un supervisor solo puede importar filas de su personal
+      const allowedAreaIds = getAllowedAreaIds(req);
+      if (allowedAreaIds && validRows.length > 0) {
+        const employeeAreas = new Map(
+          (await prisma.employee.findMany({
+            where: { id: { in: validRows.map(row => row.record.employeeId) } },
+            select: { id: true, areaId: true }
+          })).map(emp => [emp.id, emp.areaId])
+        );
+
+        for (let i = validRows.length - 1; i >= 0; i--) {
+          const employeeId = validRows[i].record.employeeId;
+          if (!employeeAreas.has(employeeId)) {
+            continue;
+          }
+
+          const areaId = employeeAreas.get(employeeId);
+          if (!areaId || !allowedAreaIds.includes(areaId)) {
+            rowErrors.push({
+              row: validRows[i].rowNumber,
+              employeeId,
+              errors: [areaId
+                ? `El empleado pertenece a un área no autorizada (${areaId})`
+                : 'El empleado no tiene área asignada']
+            });
+            validRows.splice(i, 1);
+          }
+        }
+      }
+
+      if (validRows.length > 0) {
+        const records = validRows.map(row => row.record);
+        const employees = await findActiveEmployees(records.map(record => record.employeeId), dateObj);
+        const employeeMap = new Map(employees.map(emp => [emp.id, emp]));
+
+        plan = await saveBulkAttendance({
+          dateObj,
+          mode,
+          records,
+          employeeMap,
+          dayType: dayInfo.dayType,
+          registeredBy: getCurrentUser(req)?.id || null
+        });
+
+        // Errores del guardado (empleado inactivo, repetido o existente) con su fila de la hoja
+        plan.errors.forEach(planError => {
+          rowErrors.push({
+            row: validRows[planError.index].rowNumber,
+            employeeId: planError.employeeId,
+            identification: planError.identification,
+            errors: [planError.error]
+          });
+        });
+      }
+
+      rowErrors.sort((a, b) => a.row - b.row);
+      const createdCount = plan.rows.filter(row => !row.isUpdate).length;
+
+      res.status(plan.rows.length > 0 || plan.skippedRecords.length > 0 ? 201 : 400).json({
+        success: plan.rows.length > 0 || plan.skippedRecords.length > 0,
+        message: `${plan.rows.length} de ${sheetRows.length} filas guardadas desde ${file.originalname}`,
+        data: {
+          date,
+          dayType: dayInfo.dayType,
+          ...(dayInfo.holiday && { holiday: dayInfo.holiday.name }),
+          mode,
+          totalRows: sheetRows.length,
+          processed: plan.rows.length,
+          created: createdCount,
+          updated: plan.rows.length - createdCount,
+          skipped: plan.skippedRecords.length,
+          errors: rowErrors.length,
+          processedRecords: plan.rows.map(row => ({
+            row: validRows[row.index].rowNumber,
+            employeeId: row.record.employeeId,
+            identification: row.employee.identification,
+            name: `${row.employee.firstName} ${row.employee.lastName}`,
+            workedHours: row.hours.workedHours,
+            status: row.isUpdate ? 'updated' : 'created'
+          })),
+          ...(plan.skippedRecords.length > 0 && {
+            skippedRecords: plan.skippedRecords.map(skipped => ({
+              row: validRows[skipped.index].rowNumber,
+              ...skipped
+            }))
+          }),
+          ...(rowErrors.length > 0 && { rowErrors })
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
           errors: error.errors
         });
         return;
       }
 
-      console.error('Error al generar plantilla:', error);
+      console.error('Error al importar planilla de asistencia:', error);
       res.status(500).json({
         success: false,
         message: 'Error interno del servidor'
@@ -247,193 +962,86 @@ export class AttendanceController {
   }
 
   /**
-   * POST /api/attendance/bulk
-   * Guardado masivo de registros de asistencia
-   * CRÍTICO PARA MARÍA: Guarda 615 registros en una sola transacción
+   * POST /api/attendance/bulk/validate
+   * Validación previa del guardado masivo (no escribe en la base de datos)
+   * ÚTIL PARA MARÍA: Resalta filas con errores o advertencias antes de guardar
    */
-  static async bulkCreate(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    
+  static async bulkValidate(req: Request, res: Response): Promise<void> {
     try {
-      const { date, records } = bulkAttendanceSchema.parse(req.body);
+      const { date, mode, records } = bulkAttendanceSchema.parse(req.body);
       const dateObj = new Date(date);
 
-      // Validar que todos los empleados existen
-      const employeeIds = records.map(record => record.employeeId);
-      const employees = await prisma.employee.findMany({
-        where: { 
-          id: { in: employeeIds },
-          isActive: true 
-        },
-        include: {
-          area: {
-            select: {
-              id: true,
-              name: true,
-              defaultWorkingHours: true
-            }
-          }
-        }
-      });
-
-      if (employees.length !== employeeIds.length) {
-        const foundIds = employees.map(emp => emp.id);
-        const notFoundIds = employeeIds.filter(id => !foundIds.includes(id));
-        
-        res.status(404).json({
+      // Mismo rechazo que el guardado para que la validación no dé por buena una fecha cerrada
+      if (await isPeriodClosed(prisma, getPeriodForDate(dateObj))) {
+        res.status(409).json({
           success: false,
-          message: `Empleados no encontrados o inactivos: ${notFoundIds.slice(0, 5).join(', ')}${notFoundIds.length > 5 ? ` y ${notFoundIds.length - 5} más` : ''}`
+          message: `No se pueden registrar asistencias del ${date}: el período está cerrado`
         });
         return;
       }
 
-      // Crear mapa de empleados para lookup rápido
+      const employeeIds = records.map(record => record.employeeId);
+      const employees = await findActiveEmployees(employeeIds, dateObj);
       const employeeMap = new Map(employees.map(emp => [emp.id, emp]));
 
-      // Procesar registros en transacción
-      const result = await prisma.$transaction(async (tx) => {
-        const processedRecords = [];
-        const errors = [];
-
-        for (let i = 0; i < records.length; i++) {
-          const record = records[i];
-          const employee = employeeMap.get(record.employeeId);
-          
-          if (!employee) {
-            errors.push({
-              index: i,
-              employeeId: record.employeeId,
-              error: 'Empleado no encontrado'
-            });
-            continue;
-          }
-
-          try {
-            // Verificar si ya existe registro para esta fecha
-            const existingRecord = await tx.attendanceRecord.findUnique({
-              where: {
-                employeeId_date: {
-                  employeeId: record.employeeId,
-                  date: dateObj
-                }
-              }
-            });
-
-            if (existingRecord) {
-              errors.push({
-                index: i,
-                employeeId: record.employeeId,
-                identification: employee.identification,
-                name: `${employee.firstName} ${employee.lastName}`,
-                error: 'Ya existe registro para esta fecha'
-              });
-              continue;
-            }
-
-            // Calcular horas trabajadas si no es vacación
-            let workedHours = 0;
-            let nightHours = 0;
-            let supplementaryHours = 0;
-            let extraordinaryHours = 0;
-
-            if (!record.isVacation && record.entryTime && record.exitTime) {
-              workedHours = calculateWorkedHours(
-                record.entryTime, 
-                record.exitTime, 
-                record.lunchDuration || 30,
-                record.permissionHours || 0
-              );
-
-              const extraHours = calculateExtraHours(workedHours, employee.area?.defaultWorkingHours || 8);
-              nightHours = extraHours.nightHours;
-              supplementaryHours = extraHours.supplementaryHours;
-              extraordinaryHours = extraHours.extraordinaryHours;
-            }
-
-            // Crear registro de asistencia
-            const attendanceRecord = await tx.attendanceRecord.create({
-              data: {
-                employeeId: record.employeeId,
-                date: dateObj,
-                entryTime: record.entryTime ? createTimeDate(record.entryTime) : null,
-                exitTime: record.exitTime ? createTimeDate(record.exitTime) : null,
-                lunchDuration: record.lunchDuration || 30,
-                workedHours: new Decimal(workedHours.toFixed(2)),
-                isVacation: record.isVacation || false,
-                permissionHours: record.permissionHours ? new Decimal(record.permissionHours.toFixed(2)) : new Decimal(0),
-                permissionReason: record.permissionReason || null
-              }
-            });
-
-            // Crear registro de alimentación
-            const foodAllowance = { ...{ breakfast: 0, reinforcedBreakfast: 0, snack1: 0, afternoonSnack: 0, dryMeal: 0, lunch: 0, transport: 0 }, ...record.foodAllowance };
-            
-            await tx.foodAllowance.create({
-              data: {
-                attendanceId: attendanceRecord.id,
-                breakfast: foodAllowance.breakfast,
-                reinforcedBreakfast: foodAllowance.reinforcedBreakfast,
-                snack1: foodAllowance.snack1,
-                afternoonSnack: foodAllowance.afternoonSnack,
-                dryMeal: foodAllowance.dryMeal,
-                lunch: foodAllowance.lunch,
-                transport: new Decimal(foodAllowance.transport.toFixed(2))
-              }
-            });
+      const { dayType, holiday } = await getDayTypeForDate(dateObj);
+      const existingByEmployee = await findExistingAttendance(prisma, dateObj, employeeIds);
+      const permissionTypeMap = await findPermissionTypes(records);
+      const plan = planBulkAttendance({ records, employeeMap, permissionTypeMap, existingByEmployee, mode, dayType });
 
-            // Crear registro de horas extras si aplica
-            if (nightHours > 0 || supplementaryHours > 0 || extraordinaryHours > 0) {
-              await tx.extraHours.create({
-                data: {
-                  attendanceId: attendanceRecord.id,
-                  nightHours: new Decimal(nightHours.toFixed(2)),
-                  supplementaryHours: new Decimal(supplementaryHours.toFixed(2)),
-                  extraordinaryHours: new Decimal(extraordinaryHours.toFixed(2))
-                }
-              });
-            }
+      // Reconstruir el resultado en el orden de las filas recibidas
+      const rows: BulkValidationRow[] = new Array(records.length);
 
-            processedRecords.push({
-              employeeId: record.employeeId,
-              identification: employee.identification,
-              name: `${employee.firstName} ${employee.lastName}`,
-              area: employee.area?.name,
-              workedHours,
-              status: 'created'
-            });
+      plan.rows.forEach(row => {
+        rows[row.index] = {
+          index: row.index,
+          employeeId: row.record.employeeId,
+          identification: row.employee.identification,
+          name: `${row.employee.firstName} ${row.employee.lastName}`,
+          area: row.employee.area?.name,
+          scheduleSource: row.employee.schedule?.source,
+          scheduleName: row.employee.schedule?.scheduleName,
+          action: row.isUpdate ? 'update' : 'create',
+          ...row.hours,
+          warnings: getRecordWarnings(row.record, row.hours.workedHours, row.permissionType)
+        };
+      });
 
-          } catch (recordError: any) {
-            errors.push({
-              index: i,
-              employeeId: record.employeeId,
-              identification: employee.identification,
-              name: `${employee.firstName} ${employee.lastName}`,
-              error: recordError.message
-            });
-          }
-        }
+      plan.skippedRecords.forEach(skipped => {
+        rows[skipped.index] = {
+          ...skipped,
+          action: 'skip',
+          warnings: []
+        };
+      });
 
-        return { processedRecords, errors };
+      plan.errors.forEach(rowError => {
+        rows[rowError.index] = {
+          ...rowError,
+          action: 'error',
+          warnings: []
+        };
       });
 
-      const endTime = Date.now();
-      const timeElapsed = ((endTime - startTime) / 1000).toFixed(2);
+      const rowsWithWarnings = rows.filter(row => row.warnings.length > 0).length;
 
-      res.status(201).json({
+      res.json({
         success: true,
-        message: `Procesamiento completado en ${timeElapsed}s`,
         data: {
           date,
-          processed: result.processedRecords.length,
-          errors: result.errors.length,
-          totalRequested: records.length,
-          successRate: `${((result.processedRecords.length / records.length) * 100).toFixed(1)}%`,
-          timeElapsed: `${timeElapsed}s`,
-          processedRecords: result.processedRecords,
-          ...(result.errors.length > 0 && {
-            errors: result.errors.slice(0, 10), // Mostrar solo primeros 10 errores
-            totalErrors: result.errors.length
-          })
+          dayType,
+          ...(holiday && { holiday: holiday.name }),
+          mode,
+          isValid: plan.errors.length === 0,
+          summary: {
+            totalRequested: records.length,
+            toCreate: plan.rows.filter(row => !row.isUpdate).length,
+            toUpdate: plan.rows.filter(row => row.isUpdate).length,
+            toSkip: plan.skippedRecords.length,
+            errors: plan.errors.length,
+            rowsWithWarnings
+          },
+          rows
         }
       });
 
@@ -447,15 +1055,10 @@ export class AttendanceController {
         return;
       }
 
-      const endTime = Date.now();
-      const timeElapsed = ((endTime - startTime) / 1000).toFixed(2);
-
-      console.error('Error en procesamiento masivo:', error);
+      console.error('Error en validación masiva:', error);
       res.status(500).json({
         success: false,
-        message: 'Error interno del servidor durante el procesamiento masivo',
-        timeElapsed: `${timeElapsed}s`,
-        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+        message: 'Error interno del servidor'
       });
     }
   }
@@ -475,9 +1078,12 @@ export class AttendanceController {
         date: dateObj
       };
 
-      if (areaIds && areaIds.length > 0) {
+      // Un supervisor sin filtro de área solo verifica sus áreas
+      const scopedAreaIds = areaIds && areaIds.length > 0 ? areaIds : getAllowedAreaIds(req) || undefined;
+
+      if (scopedAreaIds) {
         whereClause.employee = {
-          areaId: { in: areaIds }
+          areaId: { in: scopedAreaIds }
         };
       }
 
@@ -515,8 +1121,8 @@ export class AttendanceController {
         isActive: true
       };
 
-      if (areaIds && areaIds.length > 0) {
-        totalEmployeesQuery.areaId = { in: areaIds };
+      if (scopedAreaIds) {
+        totalEmployeesQuery.areaId = { in: scopedAreaIds };
       }
 
       const totalEmployees = await prisma.employee.count({
@@ -549,7 +1155,7 @@ export class AttendanceController {
         data: {
           date,
           summary: {
-            totalEmployees: areaIds ? `${totalEmployees} (en áreas filtradas)` : totalEmployees,
+            totalEmployees: scopedAreaIds ? `${totalEmployees} (en áreas filtradas)` : totalEmployees,
             registered: existingRecords.length,
             pending: totalEmployees - existingRecords.length,
             completionRate: `${((existingRecords.length / totalEmployees) * 100).toFixed(1)}%`
@@ -561,8 +1167,8 @@ export class AttendanceController {
           }))
         },
         meta: {
-          hasFilters: !!areaIds,
-          filteredAreas: areaIds,
+          hasFilters: !!scopedAreaIds,
+          filteredAreas: scopedAreaIds,
           totalRecordsFound: existingRecords.length
         }
       });
@@ -602,33 +1208,60 @@ export class AttendanceController {
       }
 
       const dateObj = new Date(date);
+      const allowedAreaIds = getAllowedAreaIds(req);
 
-      // Obtener resumen por área
-      const summary = await prisma.area.findMany({
-        select: {
-          id: true,
-          name: true,
-          employees: {
-            where: { isActive: true },
-            select: {
-              id: true,
-              attendanceRecords: {
-                where: { date: dateObj },
-                include: {
-                  foodAllowance: true,
-                  extraHours: true
-                }
+      // Obtener resumen por área (un supervisor solo ve sus áreas)
+      const [areas, employees] = await Promise.all([
+        prisma.area.findMany({
+          where: allowedAreaIds ? { id: { in: allowedAreaIds } } : {},
+          select: {
+            id: true,
+            name: true
+          },
+          orderBy: { name: 'asc' }
+        }),
+        // Empleados que trabajaban en la empresa ese día
+        prisma.employee.findMany({
+          where: {
+            OR: [{ hireDate: null }, { hireDate: { lte: dateObj } }],
+            AND: [{
+              OR: [
+                { terminationDate: { gte: dateObj } },
+                { terminationDate: null, isActive: true }
+              ]
+            }]
+          },
+          select: {
+            id: true,
+            areaId: true,
+            attendanceRecords: {
+              where: { date: dateObj },
+              include: {
+                foodAllowance: true,
+                extraHours: true
               }
             }
           }
-        },
-        orderBy: { name: 'asc' }
+        })
+      ]);
+
+      // Cada empleado cuenta en el área a la que pertenecía en la fecha, no en la actual
+      const resolveArea = await createAreaResolver(prisma, employees.map(emp => emp.id));
+      const employeesByArea = new Map<string, typeof employees>();
+      employees.forEach(emp => {
+        const areaId = resolveArea(emp.id, emp.areaId, dateObj);
+        if (!areaId) return;
+
+        const areaEmployees = employeesByArea.get(areaId) || [];
+        areaEmployees.push(emp);
+        employeesByArea.set(areaId, areaEmployees);
       });
 
-      const areaStats = summary.map(area => {
-        const totalEmployees = area.employees.length;
-        const registeredEmployees = area.employees.filter(emp => emp.attendanceRecords.length > 0).length;
-        const attendanceRecords = area.employees.flatMap(emp => emp.attendanceRecords);
+      const areaStats = areas.map(area => {
+        const areaEmployees = employeesByArea.get(area.id) || [];
+        const totalEmployees = areaEmployees.length;
+        const registeredEmployees = areaEmployees.filter(emp => emp.attendanceRecords.length > 0).length;
+        const attendanceRecords = areaEmployees.flatMap(emp => emp.attendanceRecords);
         
         const vacationCount = attendanceRecords.filter(record => record.isVacation).length;
         const totalWorkedHours = attendanceRecords.reduce((sum, record) => 
@@ -694,4 +1327,363 @@ export class AttendanceController {
       });
     }
   }
+
+  /**
+   * GET /api/attendance
+   * Listar registros individuales filtrando por empleado y rango de fechas
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const query = attendanceQuerySchema.parse(req.query);
+      const allowedAreaIds = getAllowedAreaIds(req);
+
+      const where: Prisma.AttendanceRecordWhereInput = {
+        ...(query.employeeId && { employeeId: query.employeeId }),
+        // Un supervisor solo ve los registros del personal de sus áreas
+        ...(allowedAreaIds && { employee: { areaId: { in: allowedAreaIds } } }),
+        ...((query.from || query.to) && {
+          date: {
+            ...(query.from && { gte: new Date(query.from) }),
+            ...(query.to && { lte: new Date(query.to) })
+          }
+        })
+      };
+
+      const skip = (query.page - 1) * query.limit;
+      const total = await prisma.attendanceRecord.count({ where });
+
+      const records = await prisma.attendanceRecord.findMany({
+        where,
+        include: attendanceRecordInclude,
+        orderBy: [
+          { date: 'desc' },
+          { employee: { lastName: 'asc' } },
+          { employee: { firstName: 'asc' } }
+        ],
+        skip,
+        take: query.limit
+      });
+
+      res.json({
+        success: true,
+        data: records.map(formatAttendanceRecord),
+        meta: {
+          total,
+          page: query.page,
+          limit: query.limit,
+          totalPages: Math.ceil(total / query.limit),
+          hasNextPage: query.page * query.limit < total,
+          hasPrevPage: query.page > 1
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener registros de asistencia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/attendance/:id
+   * Obtener registro de asistencia individual
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const record = await prisma.attendanceRecord.findUnique({
+        where: { id },
+        include: attendanceRecordInclude
+      });
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          message: 'Registro de asistencia no encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: formatAttendanceRecord(record)
+      });
+
+    } catch (error) {
+      console.error('Error al obtener registro de asistencia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/attendance/:id
+   * Corregir un registro individual recalculando horas trabajadas y extras
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = updateAttendanceSchema.parse(req.body);
+
+      const existingRecord = await prisma.attendanceRecord.findUnique({
+        where: { id },
+        include: attendanceRecordInclude
+      });
+
+      if (!existingRecord) {
+        res.status(404).json({
+          success: false,
+          message: 'Registro de asistencia no encontrado'
+        });
+        return;
+      }
+
+      const dateObj = validatedData.date ? new Date(validatedData.date) : existingRecord.date;
+      const dateChanged = dateObj.getTime() !== existingRecord.date.getTime();
+
+      if (
+        await isPeriodClosed(prisma, getPeriodForDate(existingRecord.date))
+        || (dateChanged && await isPeriodClosed(prisma, getPeriodForDate(dateObj)))
+      ) {
+        res.status(409).json({
+          success: false,
+          message: 'No se puede modificar un registro de un período cerrado'
+        });
+        return;
+      }
+
+      // Respetar la clave única employeeId + date
+      if (dateChanged) {
+        const duplicateRecord = await prisma.attendanceRecord.findUnique({
+          where: {
+            employeeId_date: {
+              employeeId: existingRecord.employeeId,
+              date: dateObj
+            }
+          }
+        });
+
+        if (duplicateRecord) {
+          res.status(409).json({
+            success: false,
+            message: `El empleado ya tiene un registro para ${formatDateToString(dateObj)}`
+          });
+          return;
+        }
+      }
+
+      // Combinar valores existentes con los cambios recibidos
+      const shift = {
+        entryTime: validatedData.entryTime !== undefined
+          ? validatedData.entryTime
+          : existingRecord.entryTime ? formatTimeToString(existingRecord.entryTime) : null,
+        exitTime: validatedData.exitTime !== undefined
+          ? validatedData.exitTime
+          : existingRecord.exitTime ? formatTimeToString(existingRecord.exitTime) : null,
+        lunchDuration: validatedData.lunchDuration ?? existingRecord.lunchDuration ?? 30,
+        isVacation: validatedData.isVacation ?? existingRecord.isVacation,
+        permissionHours: validatedData.permissionHours ?? decimalToNumber(existingRecord.permissionHours),
+        permissionReason: validatedData.permissionReason !== undefined
+          ? validatedData.permissionReason
+          : existingRecord.permissionReason,
+        permissionTypeId: validatedData.permissionTypeId !== undefined
+          ? validatedData.permissionTypeId
+          : existingRecord.permissionTypeId,
+        permissionDocument: validatedData.permissionDocument !== undefined
+          ? validatedData.permissionDocument
+          : existingRecord.permissionDocument
+      };
+
+      const permissionType = shift.permissionTypeId
+        ? await prisma.permissionType.findUnique({ where: { id: shift.permissionTypeId } })
+        : null;
+
+      // Un registro ya clasificado puede conservar un tipo desactivado después
+      if (shift.permissionTypeId && (!permissionType || (!permissionType.isActive && validatedData.permissionTypeId))) {
+        res.status(404).json({
+          success: false,
+          message: 'Tipo de permiso no encontrado o inactivo'
+        });
+        return;
+      }
+
+      if (permissionType && shift.permissionHours <= 0) {
+        res.status(400).json({
+          success: false,
+          message: 'El tipo de permiso requiere horas de permiso mayores a 0'
+        });
+        return;
+      }
+
+      const { dayType } = await getDayTypeForDate(dateObj);
+      const [employee] = await findActiveEmployees([existingRecord.employeeId], dateObj);
+      const { workedHours, nightHours, supplementaryHours, extraordinaryHours } = calculateRecordHours(
+        { ...shift, isPaidPermission: permissionType?.isPaid },
+        employee?.schedule.workingHours || existingRecord.employee.area?.defaultWorkingHours || 8,
+        dayType
+      );
+
+      const foodAllowance = {
+        breakfast: 0,
+        reinforcedBreakfast: 0,
+        snack1: 0,
+        afternoonSnack: 0,
+        dryMeal: 0,
+        lunch: 0,
+        transport: 0,
+        ...(existingRecord.foodAllowance && {
+          breakfast: existingRecord.foodAllowance.breakfast,
+          reinforcedBreakfast: existingRecord.foodAllowance.reinforcedBreakfast,
+          snack1: existingRecord.foodAllowance.snack1,
+          afternoonSnack: existingRecord.foodAllowance.afternoonSnack,
+          dryMeal: existingRecord.foodAllowance.dryMeal,
+          lunch: existingRecord.foodAllowance.lunch,
+          transport: decimalToNumber(existingRecord.foodAllowance.transport)
+        }),
+        ...validatedData.foodAllowance
+      };
+
+      const foodAllowanceData = {
+        breakfast: foodAllowance.breakfast,
+        reinforcedBreakfast: foodAllowance.reinforcedBreakfast,
+        snack1: foodAllowance.snack1,
+        afternoonSnack: foodAllowance.afternoonSnack,
+        dryMeal: foodAllowance.dryMeal,
+        lunch: foodAllowance.lunch,
+        transport: new Decimal(foodAllowance.transport.toFixed(2))
+      };
+
+      const extraHoursData = {
+        nightHours: new Decimal(nightHours.toFixed(2)),
+        supplementaryHours: new Decimal(supplementaryHours.toFixed(2)),
+        extraordinaryHours: new Decimal(extraordinaryHours.toFixed(2))
+      };
+
+      const updatedRecord = await prisma.$transaction(async (tx) => {
+        await tx.attendanceRecord.update({
+          where: { id },
+          data: {
+            date: dateObj,
+            entryTime: shift.entryTime ? createTimeDate(shift.entryTime) : null,
+            exitTime: shift.exitTime ? createTimeDate(shift.exitTime) : null,
+            lunchDuration: shift.lunchDuration,
+            workedHours: new Decimal(workedHours.toFixed(2)),
+            isVacation: shift.isVacation,
+            permissionHours: new Decimal(shift.permissionHours.toFixed(2)),
+            permissionReason: shift.permissionReason || null,
+            permissionTypeId: shift.permissionTypeId || null,
+            permissionDocument: shift.permissionDocument || null
+          }
+        });
+
+        await tx.foodAllowance.upsert({
+          where: { attendanceId: id },
+          update: foodAllowanceData,
+          create: { attendanceId: id, ...foodAllowanceData }
+        });
+
+        if (nightHours > 0 || supplementaryHours > 0 || extraordinaryHours > 0) {
+          await tx.extraHours.upsert({
+            where: { attendanceId: id },
+            update: extraHoursData,
+            create: { attendanceId: id, ...extraHoursData }
+          });
+        } else {
+          await tx.extraHours.deleteMany({
+            where: { attendanceId: id }
+          });
+        }
+
+        return tx.attendanceRecord.findUniqueOrThrow({
+          where: { id },
+          include: attendanceRecordInclude
+        });
+      });
+
+      res.json({
+        success: true,
+        message: 'Registro de asistencia actualizado exitosamente',
+        data: {
+          ...formatAttendanceRecord(updatedRecord),
+          dayType
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar registro de asistencia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/attendance/:id
+   * Eliminar registro de asistencia (alimentación y horas extras se eliminan en cascada)
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const record = await prisma.attendanceRecord.findUnique({
+        where: { id }
+      });
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          message: 'Registro de asistencia no encontrado'
+        });
+        return;
+      }
+
+      if (await isPeriodClosed(prisma, getPeriodForDate(record.date))) {
+        res.status(409).json({
+          success: false,
+          message: 'No se puede eliminar un registro de un período cerrado'
+        });
+        return;
+      }
+
+      await prisma.attendanceRecord.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Registro de asistencia eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar registro de asistencia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
 }
\ No newline at end of file
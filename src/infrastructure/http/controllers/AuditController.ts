@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../server';
+
+const AUDITED_ENTITIES = [
+  'Area',
+  'Employee',
+  'User',
+  'AttendanceRecord',
+  'FoodAllowance',
+  'MealType',
+  'VacationRequest',
+  'PermissionType',
+  'Schedule',
+  'ShiftAssignment',
+  'UserAreaAssignment'
+] as const;
+
+// Validadores Zod
+const auditQuerySchema = z.object({
+  userId: z.string()
+    .uuid('ID de usuario inválido')
+    .optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE'])
+    .optional(),
+  entity: z.enum(AUDITED_ENTITIES)
+    .optional(),
+  entityId: z.string()
+    .optional(),
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  page: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val) : 1)
+    .default('1'),
+  limit: z.string()
+    .optional()
+    .transform(val => val ? Math.min(parseInt(val), 200) : 50)
+    .default('50')
+});
+
+export class AuditController {
+
+  /**
+   * GET /api/audit
+   * Consultar el historial de cambios con filtros (solo ADMIN)
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+
+      const where: Prisma.AuditLogWhereInput = {
+        ...(query.userId && { userId: query.userId }),
+        ...(query.action && { action: query.action }),
+        ...(query.entity && { entity: query.entity }),
+        ...(query.entityId && { entityId: query.entityId }),
+        ...((query.from || query.to) && {
+          createdAt: {
+            ...(query.from && { gte: new Date(query.from) }),
+            // Incluir todo el día final
+            ...(query.to && { lt: new Date(new Date(query.to).getTime() + 24 * 60 * 60 * 1000) })
+          }
+        })
+      };
+
+      const skip = (query.page - 1) * query.limit;
+
+      const [total, logs] = await Promise.all([
+        prisma.auditLog.count({ where }),
+        prisma.auditLog.findMany({
+          where,
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                role: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: query.limit
+        })
+      ]);
+
+      res.json({
+        success: true,
+        data: logs.map(log => ({
+          id: log.id,
+          action: log.action,
+          entity: log.entity,
+          entityId: log.entityId,
+          user: log.user,
+          before: log.before,
+          after: log.after,
+          createdAt: log.createdAt
+        })),
+        meta: {
+          total,
+          page: query.page,
+          limit: query.limit,
+          totalPages: Math.ceil(total / query.limit),
+          hasNextPage: query.page * query.limit < total,
+          hasPrevPage: query.page > 1
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener auditoría:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
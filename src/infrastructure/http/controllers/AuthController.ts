@@ -1,13 +1,28 @@
 ﻿import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { prisma } from '../../../server';
 import { 
   loginSchema, 
   registerSchema, 
-  changePasswordSchema 
+  changePasswordSchema,
+  refreshTokenSchema
 } from '../validators/auth.validators';
 import { z } from 'zod';
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  SessionClientInfo
+} from '../../database/sessions';
+import {
+  getLoginBlock,
+  recordLoginAttempt,
+  registerFailedLogin,
+  resetFailedLogins
+} from '../../database/loginProtection';
+import { isPasswordReused, setUserPassword } from '../../database/passwordHistory';
+import { getPasswordPolicy, isPasswordExpired } from '../../../shared/utils/passwords';
 
 // Interface para el request con usuario
 interface AuthRequest extends Request {
@@ -16,6 +31,22 @@ interface AuthRequest extends Request {
     email: string;
     role: 'ADMIN' | 'EDITOR' | 'VIEWER';
     employeeId?: string;
+    sessionId?: string;
+  };
+}
+
+// Mensajes de rechazo del refresh token
+const REFRESH_ERRORS = {
+  INVALID: 'Refresh token inválido',
+  EXPIRED: 'La sesión expiró, inicie sesión nuevamente',
+  REUSED: 'Refresh token reutilizado; la sesión fue revocada por seguridad',
+  INACTIVE_USER: 'Usuario inactivo'
+};
+
+function getClientInfo(req: Request): SessionClientInfo {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
   };
 }
 
@@ -24,6 +55,7 @@ export class AuthController {
     try {
       // Validar input
       const { email, password } = loginSchema.parse(req.body);
+      const clientInfo = getClientInfo(req);
 
       // Buscar usuario
       const user = await prisma.user.findUnique({
@@ -32,35 +64,77 @@ export class AuthController {
       });
 
       if (!user || !user.isActive) {
+        await recordLoginAttempt(prisma, {
+          userId: user?.id,
+          email,
+          success: false,
+          failureReason: user ? 'INACTIVE' : 'UNKNOWN_EMAIL',
+          ...clientInfo
+        });
         res.status(401).json({ error: 'Credenciales inválidas' });
         return;
       }
 
+      // Cuenta bloqueada o intento antes de la espera exigida: no se verifica la contraseña
+      const block = getLoginBlock(user);
+      if (block) {
+        await recordLoginAttempt(prisma, { userId: user.id, email, success: false, failureReason: block.reason, ...clientInfo });
+        res.set('Retry-After', String(block.retryAfterSeconds));
+
+        if (block.reason === 'LOCKED') {
+          res.status(423).json({
+            error: 'Cuenta bloqueada temporalmente por intentos fallidos',
+            lockedUntil: block.lockedUntil,
+            retryAfterSeconds: block.retryAfterSeconds
+          });
+          return;
+        }
+
+        res.status(429).json({
+          error: 'Demasiados intentos fallidos, espere antes de volver a intentar',
+          retryAfterSeconds: block.retryAfterSeconds
+        });
+        return;
+      }
+
       // Verificar contraseña
       const validPassword = await bcrypt.compare(password, user.password);
       if (!validPassword) {
+        const failure = await registerFailedLogin(prisma, user.id);
+        await recordLoginAttempt(prisma, { userId: user.id, email, success: false, failureReason: 'INVALID_PASSWORD', ...clientInfo });
+
+        if (failure.lockedUntil) {
+          res.status(423).json({
+            error: 'Cuenta bloqueada temporalmente por intentos fallidos',
+            lockedUntil: failure.lockedUntil
+          });
+          return;
+        }
+
         res.status(401).json({ error: 'Credenciales inválidas' });
         return;
       }
 
-      // Generar token JWT
-      const token = jwt.sign(
-        { 
-          userId: user.id, 
-          email: user.email, 
-          role: user.role 
-        },
-        process.env.JWT_SECRET!,
-        { expiresIn: '8h' }
-      );
+      if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+        await resetFailedLogins(prisma, user.id);
+      }
+      await recordLoginAttempt(prisma, { userId: user.id, email, success: true, ...clientInfo });
+
+      // Abrir sesión: access token corto + refresh token
+      const session = await createSession(prisma, user, clientInfo);
 
-      // Responder con usuario y token
+      // Responder con usuario y tokens
       res.json({
-        token,
+        token: session.token,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+        refreshTokenExpiresAt: session.refreshTokenExpiresAt,
         user: {
           id: user.id,
           email: user.email,
           role: user.role,
+          // Contraseña temporal o vencida: el cliente debe pedir el cambio antes de continuar
+          mustChangePassword: user.mustChangePassword || isPasswordExpired(user.passwordChangedAt),
           employee: user.employee ? {
             id: user.employee.id,
             firstName: user.employee.firstName,
@@ -119,7 +193,10 @@ export class AuthController {
           email,
           password: hashedPassword,
           employeeId,
-          role: 'VIEWER' // Por defecto es VIEWER
+          role: 'VIEWER', // Por defecto es VIEWER
+          passwordHistory: {
+            create: { passwordHash: hashedPassword }
+          }
         },
         include: { employee: true }
       });
@@ -171,6 +248,7 @@ export class AuthController {
         id: user.id,
         email: user.email,
         role: user.role,
+        mustChangePassword: user.mustChangePassword || isPasswordExpired(user.passwordChangedAt),
         employee: user.employee ? {
           id: user.employee.id,
           firstName: user.employee.firstName,
@@ -213,16 +291,24 @@ export class AuthController {
         return;
       }
 
-      // Hash de la nueva contraseña
-      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      // No se permite repetir las últimas contraseñas
+      const policy = getPasswordPolicy();
+      if (await isPasswordReused(prisma, userId, newPassword, policy)) {
+        res.status(400).json({
+          error: `La nueva contraseña no puede ser igual a ninguna de las últimas ${policy.historySize}`
+        });
+        return;
+      }
+
+      // Actualizar contraseña y registrarla en el historial
+      await prisma.$transaction(tx =>
+        setUserPassword(tx, userId, newPassword, { mustChangePassword: false }, policy)
+      );
 
-      // Actualizar contraseña
-      await prisma.user.update({
-        where: { id: userId },
-        data: { password: hashedPassword }
-      });
+      // Cerrar las demás sesiones abiertas con la contraseña anterior
+      const revokedSessions = await revokeAllSessions(prisma, userId, req.user.sessionId);
 
-      res.json({ message: 'Contraseña actualizada exitosamente' });
+      res.json({ message: 'Contraseña actualizada exitosamente', revokedSessions });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
@@ -232,4 +318,64 @@ export class AuthController {
       res.status(500).json({ error: 'Error al cambiar la contraseña' });
     }
   }
+
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+      // Rotación: el refresh token usado queda revocado y se entrega uno nuevo
+      const result = await rotateRefreshToken(prisma, refreshToken, getClientInfo(req));
+
+      if (result.status !== 'ROTATED') {
+        res.status(401).json({ error: REFRESH_ERRORS[result.status] });
+        return;
+      }
+
+      res.json({
+        token: result.tokens.token,
+        refreshToken: result.tokens.refreshToken,
+        expiresIn: result.tokens.expiresIn,
+        refreshTokenExpiresAt: result.tokens.refreshTokenExpiresAt
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+        return;
+      }
+      console.error('Error al renovar sesión:', error);
+      res.status(500).json({ error: 'Error al renovar la sesión' });
+    }
+  }
+
+  async logout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user || !req.user.sessionId) {
+        res.status(401).json({ error: 'No autorizado' });
+        return;
+      }
+
+      await revokeSession(prisma, req.user.id, req.user.sessionId);
+
+      res.json({ message: 'Sesión cerrada exitosamente' });
+    } catch (error) {
+      console.error('Error al cerrar sesión:', error);
+      res.status(500).json({ error: 'Error al cerrar la sesión' });
+    }
+  }
+
+  async logoutAll(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'No autorizado' });
+        return;
+      }
+
+      const revokedSessions = await revokeAllSessions(prisma, req.user.id);
+
+      res.json({ message: 'Se cerraron todas las sesiones', revokedSessions });
+    } catch (error) {
+      console.error('Error al cerrar sesiones:', error);
+      res.status(500).json({ error: 'Error al cerrar las sesiones' });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../../server';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
+import { LABOR_LIMITS } from '../../../shared/constants';
+import { ComplianceDay, evaluateWeeklyCompliance } from '../../../shared/utils/compliance';
+import { formatDateToString } from '../../../shared/utils/period';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Validadores Zod
+const weeklyQuerySchema = z.object({
+  weekStart: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  areaIds: z.string()
+    .optional()
+    .transform(val => val ? val.split(',').map(id => id.trim()) : undefined)
+    .pipe(z.array(z.string().uuid('ID de área inválido')).optional()),
+  // Por defecto solo se devuelven los empleados con incumplimientos
+  includeCompliant: z.string()
+    .optional()
+    .transform(val => val === 'true')
+});
+
+function toNumber(value: Decimal | null | undefined): number {
+  return value ? parseFloat(value.toString()) : 0;
+}
+
+export class ComplianceController {
+
+  /**
+   * GET /api/compliance/weekly?weekStart=2025-01-06&areaIds=id1,id2
+   * Revisar la semana contra la jornada de 40 horas, el descanso semanal
+   * y el máximo de horas suplementarias
+   * ÚTIL PARA SUPERVISORES: Corregir horarios antes del cierre de nómina
+   */
+  static async getWeekly(req: Request, res: Response): Promise<void> {
+    try {
+      const { weekStart, areaIds, includeCompliant } = weeklyQuerySchema.parse(req.query);
+      const weekStartDate = new Date(weekStart);
+      const weekEndDate = new Date(weekStartDate.getTime() + 6 * MS_PER_DAY);
+      // Días previos para detectar rachas sin descanso que vienen de la semana anterior
+      const lookbackStart = new Date(weekStartDate.getTime() - LABOR_LIMITS.MAX_CONSECUTIVE_WORK_DAYS * MS_PER_DAY);
+
+      // Un supervisor sin filtro de área solo revisa sus áreas
+      const scopedAreaIds = areaIds || getAllowedAreaIds(req) || undefined;
+
+      if (areaIds) {
+        const areasCount = await prisma.area.count({ where: { id: { in: areaIds } } });
+
+        if (areasCount !== areaIds.length) {
+          res.status(404).json({
+            success: false,
+            message: 'Una o más áreas no fueron encontradas'
+          });
+          return;
+        }
+      }
+
+      const records = await prisma.attendanceRecord.findMany({
+        where: {
+          date: {
+            gte: lookbackStart,
+            lte: weekEndDate
+          },
+          ...(scopedAreaIds && { employee: { areaId: { in: scopedAreaIds } } })
+        },
+        select: {
+          date: true,
+          workedHours: true,
+          isVacation: true,
+          extraHours: {
+            select: {
+              supplementaryHours: true,
+              extraordinaryHours: true
+            }
+          },
+          employee: {
+            select: {
+              id: true,
+              identification: true,
+              firstName: true,
+              lastName: true,
+              area: {
+                select: {
+                  id: true,
+                  name: true
+                }
+              }
+            }
+          }
+        },
+        orderBy: { date: 'asc' }
+      });
+
+      const byEmployee = new Map<string, { employee: typeof records[number]['employee']; days: ComplianceDay[] }>();
+      for (const record of records) {
+        let entry = byEmployee.get(record.employee.id);
+        if (!entry) {
+          entry = { employee: record.employee, days: [] };
+          byEmployee.set(record.employee.id, entry);
+        }
+
+        entry.days.push({
+          date: record.date,
+          workedHours: toNumber(record.workedHours),
+          supplementaryHours: toNumber(record.extraHours?.supplementaryHours),
+          extraordinaryHours: toNumber(record.extraHours?.extraordinaryHours),
+          isVacation: record.isVacation
+        });
+      }
+
+      const evaluated = Array.from(byEmployee.values())
+        // Solo empleados con registros dentro de la semana consultada
+        .filter(({ days }) => days.some(day => day.date >= weekStartDate))
+        .map(({ employee, days }) => ({
+          employeeId: employee.id,
+          identification: employee.identification,
+          fullName: `${employee.firstName} ${employee.lastName}`,
+          area: employee.area,
+          ...evaluateWeeklyCompliance(days, weekStartDate, weekEndDate)
+        }))
+        .sort((a, b) =>
+          (a.area?.name || '').localeCompare(b.area?.name || '') || a.fullName.localeCompare(b.fullName)
+        );
+
+      const withViolations = evaluated.filter(employee => employee.violations.length > 0);
+
+      const violationsByCode: Record<string, number> = {};
+      withViolations.forEach(employee => {
+        employee.violations.forEach(violation => {
+          violationsByCode[violation.code] = (violationsByCode[violation.code] || 0) + 1;
+        });
+      });
+
+      res.json({
+        success: true,
+        data: {
+          weekStart: formatDateToString(weekStartDate),
+          weekEnd: formatDateToString(weekEndDate),
+          limits: LABOR_LIMITS,
+          employees: includeCompliant ? evaluated : withViolations
+        },
+        meta: {
+          employeesEvaluated: evaluated.length,
+          employeesWithViolations: withViolations.length,
+          violationsByCode
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al revisar cumplimiento semanal:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -1,13 +1,27 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../../server';
+import { canEdit, getCurrentUser } from '../middlewares/auth.middleware';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
+import { formatDateToString } from '../../../shared/utils/period';
+import { DOCUMENT_TYPES, validateIdentification } from '../../../shared/utils/identification';
+import { readEmployeeSheet } from '../../spreadsheets/employeeSheet';
+import { normalizeHeader, SheetFormat } from '../../spreadsheets/workbook';
+import {
+  findLatestEmploymentChange,
+  hasEmploymentChanges,
+  recordEmploymentChange
+} from '../../database/employmentHistory';
+
+const TERMINATION_BEFORE_HIRE = 'La fecha de salida no puede ser anterior a la fecha de ingreso';
 
 // Validadores Zod
-const createEmployeeSchema = z.object({
+const employeeFieldsSchema = z.object({
   identification: z.string()
-    .min(8, 'La identificación debe tener al menos 8 caracteres')
+    .min(5, 'La identificación debe tener al menos 5 caracteres')
     .max(20, 'La identificación no puede exceder 20 caracteres')
-    .regex(/^[0-9]+$/, 'La identificación solo puede contener números'),
+    .transform(val => val.toUpperCase().trim()),
+  documentType: z.enum(DOCUMENT_TYPES).default('CEDULA'),
   firstName: z.string()
     .min(1, 'El nombre es requerido')
     .max(100, 'El nombre no puede exceder 100 caracteres')
@@ -25,10 +39,39 @@ const createEmployeeSchema = z.object({
   baseSalary: z.number()
     .positive('El salario debe ser positivo')
     .max(10000, 'El salario no puede exceder $10,000')
+    .optional(),
+  hireDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .transform(val => new Date(val))
+    .optional(),
+  terminationDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .transform(val => new Date(val))
+    .nullable()
     .optional()
 });
 
-const updateEmployeeSchema = createEmployeeSchema.partial();
+// La cédula y el RUC se validan con su dígito verificador; el pasaporte solo por formato
+const createEmployeeSchema = employeeFieldsSchema.superRefine((data, ctx) => {
+  validateIdentification(data.documentType, data.identification).forEach(message => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['identification'], message });
+  });
+
+  if (data.hireDate && data.terminationDate && data.terminationDate < data.hireDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['terminationDate'], message: TERMINATION_BEFORE_HIRE });
+  }
+});
+
+// La identificación y las fechas se validan en el controlador junto con los valores guardados.
+// effectiveDate: desde cuándo rige un cambio de área, cargo o salario (por defecto hoy)
+const updateEmployeeSchema = employeeFieldsSchema.partial().extend({
+  effectiveDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  changeReason: z.string()
+    .max(255, 'El motivo no puede exceder 255 caracteres')
+    .optional()
+});
 
 const employeesQuerySchema = z.object({
   areaIds: z.string()
@@ -52,6 +95,21 @@ const employeesQuerySchema = z.object({
     .default('50')
 });
 
+// Campos multipart llegan como texto
+const importEmployeesSchema = z.object({
+  preview: z.enum(['true', 'false'])
+    .default('false')
+    .transform(val => val === 'true'),
+  deactivateMissing: z.enum(['true', 'false'])
+    .default('false')
+    .transform(val => val === 'true')
+});
+
+type EmployeeInput = z.infer<typeof createEmployeeSchema>;
+
+// Campos que una fila de la planilla puede cambiar en un empleado existente
+const IMPORT_UPDATABLE_FIELDS = ['documentType', 'firstName', 'lastName', 'areaId', 'position', 'baseSalary', 'hireDate'] as const;
+
 const multipleAreasSchema = z.object({
   areaIds: z.array(z.string().uuid('ID de área inválido'))
     .min(1, 'Debe especificar al menos un área')
@@ -83,6 +141,12 @@ export class EmployeesController {
         where.areaId = { in: query.areaIds };
       }
       
+      // Un supervisor sin filtro de área solo ve a su personal
+      const allowedAreaIds = getAllowedAreaIds(req);
+      if (allowedAreaIds && !where.areaId) {
+        where.areaId = { in: allowedAreaIds };
+      }
+      
       if (query.search) {
         where.OR = [
           { identification: { contains: query.search, mode: 'insensitive' } },
@@ -120,10 +184,14 @@ export class EmployeesController {
         take: query.limit
       });
 
+      // El salario solo es visible para ADMIN/EDITOR
+      const showSalary = canEdit(req);
+
       // Formatear respuesta
       const formattedEmployees = employees.map(emp => ({
         id: emp.id,
         identification: emp.identification,
+        documentType: emp.documentType,
         firstName: emp.firstName,
         lastName: emp.lastName,
         fullName: `${emp.firstName} ${emp.lastName}`,
@@ -137,7 +205,9 @@ export class EmployeesController {
           defaultWorkingHours: emp.area.defaultWorkingHours
         } : null,
         position: emp.position,
-        baseSalary: emp.baseSalary,
+        ...(showSalary && { baseSalary: emp.baseSalary }),
+        hireDate: emp.hireDate ? formatDateToString(emp.hireDate) : null,
+        terminationDate: emp.terminationDate ? formatDateToString(emp.terminationDate) : null,
         isActive: emp.isActive,
         createdAt: emp.createdAt,
         updatedAt: emp.updatedAt
@@ -242,6 +312,8 @@ export class EmployeesController {
         ]
       });
 
+      const showSalary = canEdit(req);
+
       // Formatear respuesta agrupada por área
       const employeesByArea = existingAreas.map(area => ({
         area: {
@@ -257,11 +329,12 @@ export class EmployeesController {
           .map(emp => ({
             id: emp.id,
             identification: emp.identification,
+            documentType: emp.documentType,
             firstName: emp.firstName,
             lastName: emp.lastName,
             fullName: `${emp.firstName} ${emp.lastName}`,
             position: emp.position,
-            baseSalary: emp.baseSalary,
+            ...(showSalary && { baseSalary: emp.baseSalary }),
             // Valores por defecto para registro de asistencia
             defaultValues: {
               entryTime: area.defaultEntryTime.toISOString().substr(11, 5),
@@ -357,6 +430,7 @@ export class EmployeesController {
       const formattedEmployee = {
         id: employee.id,
         identification: employee.identification,
+        documentType: employee.documentType,
         firstName: employee.firstName,
         lastName: employee.lastName,
         fullName: `${employee.firstName} ${employee.lastName}`,
@@ -370,7 +444,10 @@ export class EmployeesController {
           defaultWorkingHours: employee.area.defaultWorkingHours
         } : null,
         position: employee.position,
-        baseSalary: employee.baseSalary,
+        // Un VIEWER solo ve el salario de su propio registro
+        ...((canEdit(req) || getCurrentUser(req)?.employeeId === employee.id) && { baseSalary: employee.baseSalary }),
+        hireDate: employee.hireDate ? formatDateToString(employee.hireDate) : null,
+        terminationDate: employee.terminationDate ? formatDateToString(employee.terminationDate) : null,
         isActive: employee.isActive,
         user: employee.user,
         createdAt: employee.createdAt,
@@ -391,6 +468,85 @@ export class EmployeesController {
     }
   }
 
+  /**
+   * GET /api/employees/:id/history
+   * Historial laboral: área, cargo y salario vigentes desde cada fecha, del más reciente al más antiguo
+   */
+  static async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const employee = await prisma.employee.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          identification: true,
+          firstName: true,
+          lastName: true,
+          hireDate: true,
+          terminationDate: true,
+          employmentHistory: {
+            include: {
+              area: {
+                select: {
+                  id: true,
+                  name: true
+                }
+              }
+            },
+            orderBy: { effectiveFrom: 'desc' }
+          }
+        }
+      });
+
+      if (!employee) {
+        res.status(404).json({
+          success: false,
+          message: 'Empleado no encontrado'
+        });
+        return;
+      }
+
+      // Un VIEWER solo ve el salario de su propio registro
+      const showSalary = canEdit(req) || getCurrentUser(req)?.employeeId === employee.id;
+
+      res.json({
+        success: true,
+        data: {
+          employeeId: employee.id,
+          identification: employee.identification,
+          fullName: `${employee.firstName} ${employee.lastName}`,
+          hireDate: employee.hireDate ? formatDateToString(employee.hireDate) : null,
+          terminationDate: employee.terminationDate ? formatDateToString(employee.terminationDate) : null,
+          history: employee.employmentHistory.map((change, index, history) => ({
+            id: change.id,
+            effectiveFrom: formatDateToString(change.effectiveFrom),
+            // Vigente hasta el día anterior al siguiente cambio (null: situación actual)
+            effectiveTo: index > 0
+              ? formatDateToString(new Date(history[index - 1].effectiveFrom.getTime() - 24 * 60 * 60 * 1000))
+              : null,
+            area: change.area,
+            position: change.position,
+            ...(showSalary && { baseSalary: change.baseSalary }),
+            reason: change.reason,
+            changedBy: change.changedBy,
+            createdAt: change.createdAt
+          }))
+        },
+        meta: {
+          totalChanges: employee.employmentHistory.length
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al obtener historial laboral:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
   /**
    * POST /api/employees
    * Crear nuevo empleado (ADMIN/EDITOR)
@@ -427,20 +583,31 @@ export class EmployeesController {
         }
       }
 
-      const employee = await prisma.employee.create({
-        data: validatedData,
-        include: {
-          area: {
-            select: {
-              id: true,
-              name: true,
-              defaultEntryTime: true,
-              defaultExitTime: true,
-              defaultLunchDuration: true,
-              defaultWorkingHours: true
+      // La situación inicial rige desde la fecha de ingreso
+      const employee = await prisma.$transaction(async (tx) => {
+        const created = await tx.employee.create({
+          data: validatedData,
+          include: {
+            area: {
+              select: {
+                id: true,
+                name: true,
+                defaultEntryTime: true,
+                defaultExitTime: true,
+                defaultLunchDuration: true,
+                defaultWorkingHours: true
+              }
             }
           }
-        }
+        });
+
+        await recordEmploymentChange(tx, created.id, created, {
+          effectiveFrom: created.hireDate || new Date(formatDateToString(new Date())),
+          reason: 'Ingreso',
+          changedBy: getCurrentUser(req)?.id
+        });
+
+        return created;
       });
 
       res.status(201).json({
@@ -449,6 +616,7 @@ export class EmployeesController {
         data: {
           id: employee.id,
           identification: employee.identification,
+          documentType: employee.documentType,
           firstName: employee.firstName,
           lastName: employee.lastName,
           fullName: `${employee.firstName} ${employee.lastName}`,
@@ -463,6 +631,8 @@ export class EmployeesController {
           } : null,
           position: employee.position,
           baseSalary: employee.baseSalary,
+          hireDate: employee.hireDate ? formatDateToString(employee.hireDate) : null,
+          terminationDate: employee.terminationDate ? formatDateToString(employee.terminationDate) : null,
           isActive: employee.isActive,
           createdAt: employee.createdAt,
           updatedAt: employee.updatedAt
@@ -494,7 +664,7 @@ export class EmployeesController {
   static async update(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const validatedData = updateEmployeeSchema.parse(req.body);
+      const { effectiveDate, changeReason, ...validatedData } = updateEmployeeSchema.parse(req.body);
 
       // Verificar que el empleado existe
       const existingEmployee = await prisma.employee.findUnique({
@@ -509,6 +679,61 @@ export class EmployeesController {
         return;
       }
 
+      // Validar la identificación con el tipo de documento que quedará guardado
+      if (validatedData.identification || validatedData.documentType) {
+        const identificationErrors = validateIdentification(
+          validatedData.documentType ?? existingEmployee.documentType,
+          validatedData.identification ?? existingEmployee.identification
+        );
+
+        if (identificationErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            message: 'Datos de entrada inválidos',
+            errors: identificationErrors.map(message => ({ path: ['identification'], message }))
+          });
+          return;
+        }
+      }
+
+      const hireDate = validatedData.hireDate !== undefined ? validatedData.hireDate : existingEmployee.hireDate;
+      const terminationDate = validatedData.terminationDate !== undefined
+        ? validatedData.terminationDate
+        : existingEmployee.terminationDate;
+
+      if (hireDate && terminationDate && terminationDate < hireDate) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: [{ path: ['terminationDate'], message: TERMINATION_BEFORE_HIRE }]
+        });
+        return;
+      }
+
+      // Un cambio de área, cargo o salario abre un nuevo tramo en el historial laboral
+      const employmentChanged = hasEmploymentChanges(existingEmployee, validatedData);
+      const today = formatDateToString(new Date());
+      const effectiveFrom = effectiveDate || today;
+
+      if (employmentChanged) {
+        if (effectiveFrom > today) {
+          res.status(400).json({
+            success: false,
+            message: 'La fecha de vigencia del cambio no puede ser futura'
+          });
+          return;
+        }
+
+        const latestChange = await findLatestEmploymentChange(prisma, id);
+        if (latestChange && effectiveFrom < formatDateToString(latestChange.effectiveFrom)) {
+          res.status(400).json({
+            success: false,
+            message: `La fecha de vigencia no puede ser anterior al último cambio registrado (${formatDateToString(latestChange.effectiveFrom)})`
+          });
+          return;
+        }
+      }
+
       // Verificar identificación única si se está actualizando
       if (validatedData.identification && validatedData.identification !== existingEmployee.identification) {
         const duplicateEmployee = await prisma.employee.findUnique({
@@ -539,24 +764,36 @@ export class EmployeesController {
         }
       }
 
-      const updatedEmployee = await prisma.employee.update({
-        where: { id },
-        data: {
-          ...validatedData,
-          updatedAt: new Date()
-        },
-        include: {
-          area: {
-            select: {
-              id: true,
-              name: true,
-              defaultEntryTime: true,
-              defaultExitTime: true,
-              defaultLunchDuration: true,
-              defaultWorkingHours: true
+      const updatedEmployee = await prisma.$transaction(async (tx) => {
+        const updated = await tx.employee.update({
+          where: { id },
+          data: {
+            ...validatedData,
+            updatedAt: new Date()
+          },
+          include: {
+            area: {
+              select: {
+                id: true,
+                name: true,
+                defaultEntryTime: true,
+                defaultExitTime: true,
+                defaultLunchDuration: true,
+                defaultWorkingHours: true
+              }
             }
           }
+        });
+
+        if (employmentChanged) {
+          await recordEmploymentChange(tx, id, updated, {
+            effectiveFrom: new Date(effectiveFrom),
+            reason: changeReason,
+            changedBy: getCurrentUser(req)?.id
+          });
         }
+
+        return updated;
       });
 
       res.json({
@@ -565,6 +802,7 @@ export class EmployeesController {
         data: {
           id: updatedEmployee.id,
           identification: updatedEmployee.identification,
+          documentType: updatedEmployee.documentType,
           firstName: updatedEmployee.firstName,
           lastName: updatedEmployee.lastName,
           fullName: `${updatedEmployee.firstName} ${updatedEmployee.lastName}`,
@@ -579,6 +817,8 @@ export class EmployeesController {
           } : null,
           position: updatedEmployee.position,
           baseSalary: updatedEmployee.baseSalary,
+          hireDate: updatedEmployee.hireDate ? formatDateToString(updatedEmployee.hireDate) : null,
+          terminationDate: updatedEmployee.terminationDate ? formatDateToString(updatedEmployee.terminationDate) : null,
           isActive: updatedEmployee.isActive,
           createdAt: updatedEmployee.createdAt,
           updatedAt: updatedEmployee.updatedAt
@@ -624,11 +864,12 @@ export class EmployeesController {
         return;
       }
 
-      // Soft delete del empleado
+      // Soft delete del empleado (la fecha de salida por defecto es hoy)
       await prisma.employee.update({
         where: { id },
         data: {
           isActive: false,
+          terminationDate: employee.terminationDate || new Date(formatDateToString(new Date())),
           updatedAt: new Date()
         }
       });
@@ -687,11 +928,12 @@ export class EmployeesController {
         return;
       }
 
-      // Reactivar empleado
+      // Reactivar empleado (reingreso: ya no tiene fecha de salida)
       const reactivatedEmployee = await prisma.employee.update({
         where: { id },
         data: {
           isActive: true,
+          terminationDate: null,
           updatedAt: new Date()
         },
         include: {
@@ -725,6 +967,7 @@ export class EmployeesController {
         data: {
           id: reactivatedEmployee.id,
           identification: reactivatedEmployee.identification,
+          documentType: reactivatedEmployee.documentType,
           firstName: reactivatedEmployee.firstName,
           lastName: reactivatedEmployee.lastName,
           fullName: `${reactivatedEmployee.firstName} ${reactivatedEmployee.lastName}`,
@@ -739,6 +982,8 @@ export class EmployeesController {
           } : null,
           position: reactivatedEmployee.position,
           baseSalary: reactivatedEmployee.baseSalary,
+          hireDate: reactivatedEmployee.hireDate ? formatDateToString(reactivatedEmployee.hireDate) : null,
+          terminationDate: reactivatedEmployee.terminationDate ? formatDateToString(reactivatedEmployee.terminationDate) : null,
           isActive: reactivatedEmployee.isActive,
           createdAt: reactivatedEmployee.createdAt,
           updatedAt: reactivatedEmployee.updatedAt
@@ -753,4 +998,303 @@ export class EmployeesController {
       });
     }
   }
+
+  /**
+   * POST /api/employees/import
+   * Importar empleados desde una planilla XLSX/CSV (multipart: file, preview, deactivateMissing) - Solo ADMIN
+   * ÚTIL PARA cargar la nómina de RRHH: crea o actualiza por cédula y con preview=true
+   * muestra las altas, cambios y desactivaciones sin guardar nada
+   */
+  static async importSheet(req: Request, res: Response): Promise<void> {
+    try {
+      const { preview, deactivateMissing } = importEmployeesSchema.parse(req.body);
+      const file = req.file!;
+      const format: SheetFormat = file.originalname.toLowerCase().endsWith('.csv') ? 'csv' : 'xlsx';
+
+      let sheetRows;
+      try {
+        sheetRows = await readEmployeeSheet(file.buffer, format);
+      } catch (parseError) {
+        console.warn('Planilla ilegible:', parseError);
+        res.status(400).json({
+          success: false,
+          message: `No se pudo leer el archivo ${file.originalname}`
+        });
+        return;
+      }
+
+      if (sheetRows.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'La planilla no contiene empleados'
+        });
+        return;
+      }
+
+      if (sheetRows.length > 1000) {
+        res.status(400).json({
+          success: false,
+          message: 'No puede procesar más de 1000 empleados a la vez'
+        });
+        return;
+      }
+
+      // Las áreas se indican por nombre, sin distinguir mayúsculas ni tildes
+      const areasByName = new Map(
+        (await prisma.area.findMany({ select: { id: true, name: true } }))
+          .map(area => [normalizeHeader(area.name), area])
+      );
+
+      const sheetIdentifications = Array.from(new Set(
+        sheetRows.map(row => row.employee.identification).filter((identification): identification is string => !!identification)
+      ));
+      const existingByIdentification = new Map(
+        (await prisma.employee.findMany({
+          where: { identification: { in: sheetIdentifications } }
+        })).map(emp => [emp.identification, emp])
+      );
+
+      const rowErrors: { row: number; identification?: string; errors: string[] }[] = [];
+      const validRows: { rowNumber: number; areaName: string | null; data: EmployeeInput }[] = [];
+      const rowByIdentification = new Map<string, number>();
+
+      sheetRows.forEach(sheetRow => {
+        const errors = [...sheetRow.errors];
+        const { identification } = sheetRow.employee;
+
+        const area = sheetRow.areaName ? areasByName.get(normalizeHeader(sheetRow.areaName)) : undefined;
+        if (sheetRow.areaName && !area) {
+          errors.push(`No existe área con nombre ${sheetRow.areaName}`);
+        }
+
+        if (identification && rowByIdentification.has(identification)) {
+          errors.push(`Cédula repetida en la fila ${rowByIdentification.get(identification)}`);
+        } else if (identification) {
+          rowByIdentification.set(identification, sheetRow.rowNumber);
+        }
+
+        // Sin columna de tipo de documento se conserva el del empleado existente
+        const documentType = sheetRow.employee.documentType
+          ?? (identification ? existingByIdentification.get(identification)?.documentType : undefined);
+
+        const parsed = createEmployeeSchema.safeParse({ ...sheetRow.employee, documentType, areaId: area?.id });
+        if (!parsed.success) {
+          errors.push(...parsed.error.errors.map(issue =>
+            issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+          ));
+        }
+
+        if (errors.length > 0 || !parsed.success) {
+          rowErrors.push({
+            row: sheetRow.rowNumber,
+            identification,
+            errors: Array.from(new Set(errors))
+          });
+          return;
+        }
+
+        validRows.push({ rowNumber: sheetRow.rowNumber, areaName: area?.name ?? null, data: parsed.data });
+      });
+
+      // Clasificar cada fila válida: alta, cambio (solo columnas con valor) o sin cambios
+      const creates: { rowNumber: number; areaName: string | null; data: EmployeeInput }[] = [];
+      const updates: {
+        rowNumber: number;
+        employeeId: string;
+        identification: string;
+        fullName: string;
+        data: Partial<EmployeeInput> & { isActive?: boolean; terminationDate?: null };
+        changes: string[];
+        employmentChanged: boolean;
+      }[] = [];
+      let unchanged = 0;
+
+      validRows.forEach(validRow => {
+        const existing = existingByIdentification.get(validRow.data.identification);
+
+        if (!existing) {
+          creates.push(validRow);
+          return;
+        }
+
+        const current: Record<typeof IMPORT_UPDATABLE_FIELDS[number], string | null> = {
+          documentType: existing.documentType,
+          firstName: existing.firstName,
+          lastName: existing.lastName,
+          areaId: existing.areaId,
+          position: existing.position,
+          baseSalary: existing.baseSalary !== null ? Number(existing.baseSalary).toString() : null,
+          hireDate: existing.hireDate ? formatDateToString(existing.hireDate) : null
+        };
+        const incoming: Record<typeof IMPORT_UPDATABLE_FIELDS[number], string | undefined> = {
+          documentType: validRow.data.documentType,
+          firstName: validRow.data.firstName,
+          lastName: validRow.data.lastName,
+          areaId: validRow.data.areaId,
+          position: validRow.data.position,
+          baseSalary: validRow.data.baseSalary?.toString(),
+          hireDate: validRow.data.hireDate ? formatDateToString(validRow.data.hireDate) : undefined
+        };
+
+        const changes: string[] = IMPORT_UPDATABLE_FIELDS.filter(field =>
+          incoming[field] !== undefined && incoming[field] !== current[field]
+        );
+        const data: Partial<EmployeeInput> & { isActive?: boolean; terminationDate?: null } = {};
+        changes.forEach(field => {
+          Object.assign(data, { [field]: validRow.data[field as keyof EmployeeInput] });
+        });
+
+        // Volver a aparecer en la nómina reactiva al empleado
+        if (!existing.isActive) {
+          data.isActive = true;
+          data.terminationDate = null;
+          changes.push('isActive');
+        }
+
+        if (changes.length === 0) {
+          unchanged++;
+          return;
+        }
+
+        updates.push({
+          rowNumber: validRow.rowNumber,
+          employeeId: existing.id,
+          identification: existing.identification,
+          fullName: `${existing.firstName} ${existing.lastName}`,
+          data,
+          changes,
+          employmentChanged: hasEmploymentChanges(existing, data)
+        });
+      });
+
+      // Empleados activos que ya no constan en la nómina
+      const deactivations = deactivateMissing
+        ? await prisma.employee.findMany({
+          where: {
+            isActive: true,
+            identification: { notIn: sheetIdentifications }
+          },
+          select: { id: true, identification: true, firstName: true, lastName: true }
+        })
+        : [];
+
+      if (!preview && (creates.length > 0 || updates.length > 0 || deactivations.length > 0)) {
+        const today = new Date(formatDateToString(new Date()));
+        const changedBy = getCurrentUser(req)?.id;
+
+        await prisma.$transaction(async (tx) => {
+          for (const create of creates) {
+            const created = await tx.employee.create({ data: create.data });
+
+            await recordEmploymentChange(tx, created.id, created, {
+              effectiveFrom: created.hireDate || today,
+              reason: 'Ingreso',
+              changedBy
+            });
+          }
+
+          for (const update of updates) {
+            const updated = await tx.employee.update({
+              where: { id: update.employeeId },
+              data: {
+                ...update.data,
+                updatedAt: new Date()
+              }
+            });
+
+            if (update.employmentChanged) {
+              await recordEmploymentChange(tx, updated.id, updated, {
+                effectiveFrom: today,
+                reason: `Importación de ${file.originalname}`,
+                changedBy
+              });
+            }
+
+            if (update.data.isActive) {
+              await tx.user.updateMany({
+                where: { employeeId: update.employeeId },
+                data: { isActive: true, updatedAt: new Date() }
+              });
+            }
+          }
+
+          if (deactivations.length > 0) {
+            const employeeIds = deactivations.map(emp => emp.id);
+
+            await tx.employee.updateMany({
+              where: { id: { in: employeeIds } },
+              data: { isActive: false, updatedAt: new Date() }
+            });
+
+            await tx.employee.updateMany({
+              where: { id: { in: employeeIds }, terminationDate: null },
+              data: { terminationDate: today }
+            });
+
+            // Igual que al desactivar un empleado: su usuario también se desactiva
+            await tx.user.updateMany({
+              where: { employeeId: { in: employeeIds } },
+              data: { isActive: false, updatedAt: new Date() }
+            });
+          }
+        }, { timeout: 30000 });
+      }
+
+      rowErrors.sort((a, b) => a.row - b.row);
+      const processed = creates.length + updates.length;
+      const success = preview || validRows.length > 0 || deactivations.length > 0;
+
+      res.status(success ? (preview ? 200 : 201) : 400).json({
+        success,
+        message: preview
+          ? `Vista previa de ${file.originalname}: ${creates.length} altas, ${updates.length} cambios y ${deactivations.length} desactivaciones`
+          : `${processed} de ${sheetRows.length} filas guardadas desde ${file.originalname}`,
+        data: {
+          preview,
+          deactivateMissing,
+          totalRows: sheetRows.length,
+          created: creates.length,
+          updated: updates.length,
+          unchanged,
+          deactivated: deactivations.length,
+          errors: rowErrors.length,
+          creates: creates.map(create => ({
+            row: create.rowNumber,
+            identification: create.data.identification,
+            fullName: `${create.data.firstName} ${create.data.lastName}`,
+            area: create.areaName
+          })),
+          updates: updates.map(update => ({
+            row: update.rowNumber,
+            employeeId: update.employeeId,
+            identification: update.identification,
+            fullName: update.fullName,
+            changes: update.changes
+          })),
+          deactivations: deactivations.map(emp => ({
+            employeeId: emp.id,
+            identification: emp.identification,
+            fullName: `${emp.firstName} ${emp.lastName}`
+          })),
+          ...(rowErrors.length > 0 && { rowErrors })
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al importar empleados:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
 }
\ No newline at end of file
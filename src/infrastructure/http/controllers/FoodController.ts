@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../../../server';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
+import { DEFAULT_FOOD_ALLOWANCE, FOOD_TYPE_FIELDS, FOOD_TYPES } from '../../../shared/constants';
+import { formatDateToString } from '../../../shared/utils/period';
+
+type FoodTypeCode = keyof typeof FOOD_TYPE_FIELDS;
+
+const FOOD_TYPE_CODES = Object.keys(FOOD_TYPE_FIELDS) as FoodTypeCode[];
+
+const WEEKDAY_NAMES = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+// Validadores Zod
+const forecastQuerySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  // Cantidad de días equivalentes anteriores (mismo día de la semana) a promediar
+  weeks: z.string()
+    .optional()
+    .transform(val => val ? parseInt(val) : 4)
+    .pipe(z.number().int().min(1, 'Mínimo 1 semana').max(12, 'Máximo 12 semanas')),
+  areaIds: z.string()
+    .optional()
+    .transform(val => val ? val.split(',').map(id => id.trim()) : undefined)
+    .pipe(z.array(z.string().uuid('ID de área inválido')).optional())
+});
+
+type MealCounts = Record<FoodTypeCode, number>;
+
+interface FoodCounts {
+  breakfast: number;
+  reinforcedBreakfast: number;
+  snack1: number;
+  afternoonSnack: number;
+  dryMeal: number;
+  lunch: number;
+}
+
+function emptyMealCounts(): MealCounts {
+  return Object.fromEntries(FOOD_TYPE_CODES.map(code => [code, 0])) as MealCounts;
+}
+
+function addFoodCounts(target: MealCounts, food: FoodCounts): void {
+  FOOD_TYPE_CODES.forEach(code => {
+    target[code] += food[FOOD_TYPE_FIELDS[code]];
+  });
+}
+
+export class FoodController {
+
+  /**
+   * GET /api/food/forecast?date=2025-01-07&weeks=4&areaIds=id1,id2
+   * Pronóstico de alimentación por tipo y por área para preparar en cocina
+   * - Empleados ya registrados: se usan sus cantidades reales (vacaciones no comen)
+   * - Empleados con vacaciones aprobadas sin registro: no se cuentan
+   * - Empleados pendientes: promedio por persona de los N días equivalentes anteriores
+   */
+  static async getForecast(req: Request, res: Response): Promise<void> {
+    try {
+      const { date, weeks, areaIds } = forecastQuerySchema.parse(req.query);
+      const dateObj = new Date(date);
+
+      // Un supervisor sin filtro de área solo pronostica sus áreas
+      const scopedAreaIds = areaIds || getAllowedAreaIds(req) || undefined;
+
+      // Mismo día de la semana en las N semanas anteriores
+      const historyDates = Array.from({ length: weeks }, (_, index) =>
+        new Date(dateObj.getTime() - (index + 1) * 7 * 24 * 60 * 60 * 1000)
+      );
+
+      const [areas, registeredRecords, historyRecords, approvedVacations] = await Promise.all([
+        prisma.area.findMany({
+          where: { ...(scopedAreaIds && { id: { in: scopedAreaIds } }) },
+          select: {
+            id: true,
+            name: true,
+            _count: {
+              select: {
+                employees: { where: { isActive: true } }
+              }
+            }
+          },
+          orderBy: { name: 'asc' }
+        }),
+        prisma.attendanceRecord.findMany({
+          where: {
+            date: dateObj,
+            employee: {
+              isActive: true,
+              areaId: scopedAreaIds ? { in: scopedAreaIds } : { not: null }
+            }
+          },
+          select: {
+            employeeId: true,
+            isVacation: true,
+            permissionHours: true,
+            employee: { select: { areaId: true } },
+            foodAllowance: true
+          }
+        }),
+        prisma.attendanceRecord.findMany({
+          where: {
+            date: { in: historyDates },
+            isVacation: false,
+            employee: {
+              areaId: scopedAreaIds ? { in: scopedAreaIds } : { not: null }
+            }
+          },
+          select: {
+            employee: { select: { areaId: true } },
+            foodAllowance: true
+          }
+        }),
+        prisma.vacationRequest.findMany({
+          where: {
+            status: 'APPROVED',
+            startDate: { lte: dateObj },
+            endDate: { gte: dateObj },
+            employee: {
+              isActive: true,
+              areaId: scopedAreaIds ? { in: scopedAreaIds } : { not: null }
+            }
+          },
+          select: {
+            employeeId: true,
+            employee: { select: { areaId: true } }
+          }
+        })
+      ]);
+
+      if (areaIds && areas.length !== areaIds.length) {
+        const foundIds = areas.map(area => area.id);
+        res.status(404).json({
+          success: false,
+          message: `Áreas no encontradas: ${areaIds.filter(id => !foundIds.includes(id)).join(', ')}`
+        });
+        return;
+      }
+
+      // Consumo histórico por área: total por tipo y cantidad de registros de personas presentes
+      const historyByArea = new Map<string, { records: number; meals: MealCounts }>();
+      for (const record of historyRecords) {
+        const areaId = record.employee.areaId!;
+        let history = historyByArea.get(areaId);
+        if (!history) {
+          history = { records: 0, meals: emptyMealCounts() };
+          historyByArea.set(areaId, history);
+        }
+
+        history.records += 1;
+        if (record.foodAllowance) {
+          addFoodCounts(history.meals, record.foodAllowance);
+        }
+      }
+
+      // Vacaciones aprobadas de empleados que aún no tienen registro para la fecha
+      const registeredEmployeeIds = new Set(registeredRecords.map(record => record.employeeId));
+      const scheduledVacations = approvedVacations.filter(request => !registeredEmployeeIds.has(request.employeeId));
+
+      const totals = {
+        activeEmployees: 0,
+        onVacation: 0,
+        withPermission: 0,
+        alreadyRegistered: 0,
+        expectedDiners: 0,
+        meals: emptyMealCounts()
+      };
+
+      const areaForecasts = areas.map(area => {
+        const areaRecords = registeredRecords.filter(record => record.employee.areaId === area.id);
+        const scheduledOnVacation = scheduledVacations.filter(request => request.employee.areaId === area.id).length;
+        const onVacation = areaRecords.filter(record => record.isVacation).length + scheduledOnVacation;
+        const withPermission = areaRecords.filter(record => parseFloat(record.permissionHours?.toString() || '0') > 0).length;
+        const pendingEmployees = Math.max(0, area._count.employees - areaRecords.length - scheduledOnVacation);
+
+        // Cantidades ya registradas para la fecha
+        const meals = emptyMealCounts();
+        areaRecords.forEach(record => {
+          if (!record.isVacation && record.foodAllowance) {
+            addFoodCounts(meals, record.foodAllowance);
+          }
+        });
+
+        // Promedio por persona presente; sin historial se usan los valores por defecto
+        const history = historyByArea.get(area.id);
+        const source = history && history.records > 0 ? 'HISTORY' : 'DEFAULT';
+        const averagePerEmployee = emptyMealCounts();
+        FOOD_TYPE_CODES.forEach(code => {
+          averagePerEmployee[code] = history && history.records > 0
+            ? Math.round((history.meals[code] / history.records) * 100) / 100
+            : DEFAULT_FOOD_ALLOWANCE[FOOD_TYPE_FIELDS[code]];
+
+          // Redondeo hacia arriba para no quedar cortos en cocina
+          meals[code] += Math.ceil(pendingEmployees * averagePerEmployee[code]);
+        });
+
+        const expectedDiners = area._count.employees - onVacation;
+
+        totals.activeEmployees += area._count.employees;
+        totals.onVacation += onVacation;
+        totals.withPermission += withPermission;
+        totals.alreadyRegistered += areaRecords.length;
+        totals.expectedDiners += expectedDiners;
+        FOOD_TYPE_CODES.forEach(code => {
+          totals.meals[code] += meals[code];
+        });
+
+        return {
+          areaId: area.id,
+          areaName: area.name,
+          activeEmployees: area._count.employees,
+          onVacation,
+          withPermission,
+          alreadyRegistered: areaRecords.length,
+          pendingEmployees,
+          expectedDiners,
+          source,
+          historyRecords: history?.records || 0,
+          averagePerEmployee,
+          meals
+        };
+      });
+
+      res.json({
+        success: true,
+        data: {
+          date,
+          weekday: WEEKDAY_NAMES[dateObj.getUTCDay()],
+          weeksAnalyzed: weeks,
+          historyDates: historyDates.map(formatDateToString),
+          mealTypes: FOOD_TYPE_CODES.map(code => ({ code, name: FOOD_TYPES[code] })),
+          areas: areaForecasts,
+          totals
+        },
+        meta: {
+          totalAreas: areaForecasts.length,
+          areasWithoutHistory: areaForecasts.filter(area => area.source === 'DEFAULT').length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar pronóstico de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
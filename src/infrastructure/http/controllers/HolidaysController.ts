@@ -0,0 +1,276 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../../../server';
+import { formatDateToString } from '../../../shared/utils/period';
+
+// Validadores Zod
+const createHolidaySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(150, 'El nombre no puede exceder 150 caracteres')
+    .transform(val => val.trim())
+});
+
+const updateHolidaySchema = createHolidaySchema.partial();
+
+const holidaysQuerySchema = z.object({
+  year: z.string()
+    .regex(/^\d{4}$/, 'Formato de año inválido (YYYY)')
+    .optional()
+    .transform(val => val ? parseInt(val) : undefined)
+});
+
+function formatHoliday(holiday: { id: string; date: Date; name: string; createdAt: Date; updatedAt: Date }) {
+  return {
+    id: holiday.id,
+    date: formatDateToString(holiday.date),
+    name: holiday.name,
+    createdAt: holiday.createdAt,
+    updatedAt: holiday.updatedAt
+  };
+}
+
+export class HolidaysController {
+
+  /**
+   * GET /api/holidays
+   * Listar feriados, opcionalmente filtrados por año
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { year } = holidaysQuerySchema.parse(req.query);
+
+      const holidays = await prisma.holiday.findMany({
+        where: {
+          ...(year && {
+            date: {
+              gte: new Date(Date.UTC(year, 0, 1)),
+              lte: new Date(Date.UTC(year, 11, 31))
+            }
+          })
+        },
+        orderBy: { date: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        data: holidays.map(formatHoliday),
+        meta: {
+          total: holidays.length,
+          year: year || null
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener feriados:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/holidays/:id
+   * Obtener feriado específico
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const holiday = await prisma.holiday.findUnique({
+        where: { id }
+      });
+
+      if (!holiday) {
+        res.status(404).json({
+          success: false,
+          message: 'Feriado no encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: formatHoliday(holiday)
+      });
+
+    } catch (error) {
+      console.error('Error al obtener feriado:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/holidays
+   * Crear feriado (solo ADMIN)
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createHolidaySchema.parse(req.body);
+      const dateObj = new Date(validatedData.date);
+
+      const existingHoliday = await prisma.holiday.findUnique({
+        where: { date: dateObj }
+      });
+
+      if (existingHoliday) {
+        res.status(409).json({
+          success: false,
+          message: `Ya existe un feriado registrado para ${validatedData.date}: ${existingHoliday.name}`
+        });
+        return;
+      }
+
+      const holiday = await prisma.holiday.create({
+        data: {
+          date: dateObj,
+          name: validatedData.name
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Feriado creado exitosamente',
+        data: formatHoliday(holiday)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al crear feriado:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/holidays/:id
+   * Actualizar feriado (solo ADMIN)
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = updateHolidaySchema.parse(req.body);
+
+      const existingHoliday = await prisma.holiday.findUnique({
+        where: { id }
+      });
+
+      if (!existingHoliday) {
+        res.status(404).json({
+          success: false,
+          message: 'Feriado no encontrado'
+        });
+        return;
+      }
+
+      // Verificar que no exista otro feriado en la nueva fecha
+      if (validatedData.date && validatedData.date !== formatDateToString(existingHoliday.date)) {
+        const duplicateHoliday = await prisma.holiday.findUnique({
+          where: { date: new Date(validatedData.date) }
+        });
+
+        if (duplicateHoliday) {
+          res.status(409).json({
+            success: false,
+            message: `Ya existe un feriado registrado para ${validatedData.date}: ${duplicateHoliday.name}`
+          });
+          return;
+        }
+      }
+
+      const updatedHoliday = await prisma.holiday.update({
+        where: { id },
+        data: {
+          ...(validatedData.date && { date: new Date(validatedData.date) }),
+          ...(validatedData.name && { name: validatedData.name })
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Feriado actualizado exitosamente',
+        data: formatHoliday(updatedHoliday)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar feriado:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/holidays/:id
+   * Eliminar feriado (solo ADMIN)
+   * Nota: Los registros de asistencia ya guardados no se recalculan
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const holiday = await prisma.holiday.findUnique({
+        where: { id }
+      });
+
+      if (!holiday) {
+        res.status(404).json({
+          success: false,
+          message: 'Feriado no encontrado'
+        });
+        return;
+      }
+
+      await prisma.holiday.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Feriado eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar feriado:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -0,0 +1,405 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { FOOD_TYPE_FIELDS, FOOD_TYPES } from '../../../shared/constants';
+import { formatDateToString, getPeriodForDate, getPeriodRange } from '../../../shared/utils/period';
+import { countCalendarDays } from '../../../shared/utils/vacations';
+
+const MAX_RANGE_DAYS = 62;
+
+// Validadores Zod
+const dateRangeQuerySchema = z.object({
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional()
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: 'La fecha inicial debe ser anterior o igual a la fecha final',
+  path: ['to']
+});
+
+const summaryQuerySchema = z.object({
+  period: z.string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Formato de período inválido (YYYY-MM)')
+    .optional()
+});
+
+function toNumber(value: Decimal | null | undefined): number {
+  return value ? parseFloat(value.toString()) : 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatTimeToString(date: Date | null): string | null {
+  return date ? date.toISOString().substr(11, 5) : null;
+}
+
+/**
+ * Resolver el rango consultado; sin fechas se usa el período de nómina en curso
+ */
+function resolveDateRange(query: z.infer<typeof dateRangeQuerySchema>) {
+  const currentPeriod = getPeriodForDate(new Date());
+  const fromDate = query.from ? new Date(query.from) : currentPeriod.periodStart;
+  const toDate = query.to ? new Date(query.to) : currentPeriod.periodEnd;
+
+  return { fromDate, toDate };
+}
+
+/**
+ * Empleado vinculado al usuario autenticado (null si la cuenta no tiene empleado)
+ */
+function getOwnEmployeeId(req: Request): string | null {
+  return getCurrentUser(req)?.employeeId || null;
+}
+
+export class MeController {
+
+  /**
+   * GET /api/me/attendance?from=2025-01-01&to=2025-01-31
+   * Consultar los registros de asistencia propios (por defecto, el período en curso)
+   * ÚTIL PARA TRABAJADORES: Revisar sus horas, horas extra y alimentación
+   */
+  static async getAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = getOwnEmployeeId(req);
+      if (!employeeId) {
+        res.status(404).json({
+          success: false,
+          message: 'El usuario no tiene un empleado asociado'
+        });
+        return;
+      }
+
+      const { fromDate, toDate } = resolveDateRange(dateRangeQuerySchema.parse(req.query));
+
+      if (countCalendarDays(fromDate, toDate) > MAX_RANGE_DAYS) {
+        res.status(400).json({
+          success: false,
+          message: `El rango de consulta no puede exceder ${MAX_RANGE_DAYS} días`
+        });
+        return;
+      }
+
+      const records = await prisma.attendanceRecord.findMany({
+        where: {
+          employeeId,
+          date: {
+            gte: fromDate,
+            lte: toDate
+          }
+        },
+        include: {
+          permissionType: {
+            select: {
+              code: true,
+              name: true,
+              isPaid: true
+            }
+          },
+          foodAllowance: true,
+          extraHours: true
+        },
+        orderBy: { date: 'asc' }
+      });
+
+      const formattedRecords = records.map(record => ({
+        id: record.id,
+        date: formatDateToString(record.date),
+        entryTime: formatTimeToString(record.entryTime),
+        exitTime: formatTimeToString(record.exitTime),
+        lunchDuration: record.lunchDuration,
+        workedHours: toNumber(record.workedHours),
+        isVacation: record.isVacation,
+        permissionHours: toNumber(record.permissionHours),
+        permissionReason: record.permissionReason,
+        permissionType: record.permissionType,
+        extraHours: {
+          nightHours: toNumber(record.extraHours?.nightHours),
+          supplementaryHours: toNumber(record.extraHours?.supplementaryHours),
+          extraordinaryHours: toNumber(record.extraHours?.extraordinaryHours)
+        },
+        foodAllowance: record.foodAllowance ? {
+          breakfast: record.foodAllowance.breakfast,
+          reinforcedBreakfast: record.foodAllowance.reinforcedBreakfast,
+          snack1: record.foodAllowance.snack1,
+          afternoonSnack: record.foodAllowance.afternoonSnack,
+          dryMeal: record.foodAllowance.dryMeal,
+          lunch: record.foodAllowance.lunch,
+          transport: toNumber(record.foodAllowance.transport)
+        } : null
+      }));
+
+      res.json({
+        success: true,
+        data: formattedRecords,
+        meta: {
+          from: formatDateToString(fromDate),
+          to: formatDateToString(toDate),
+          totalRecords: formattedRecords.length,
+          totalWorkedHours: round2(formattedRecords.reduce((sum, record) => sum + record.workedHours, 0))
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener asistencia propia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/me/summary?period=2025-01
+   * Totales propios de un período de nómina (por defecto, el período en curso).
+   * Un período cerrado devuelve el resumen congelado; uno abierto se calcula en vivo.
+   */
+  static async getSummary(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = getOwnEmployeeId(req);
+      if (!employeeId) {
+        res.status(404).json({
+          success: false,
+          message: 'El usuario no tiene un empleado asociado'
+        });
+        return;
+      }
+
+      const { period } = summaryQuerySchema.parse(req.query);
+      const range = period ? getPeriodRange(period) : getPeriodForDate(new Date());
+
+      const storedSummary = await prisma.monthlySummary.findUnique({
+        where: {
+          employeeId_periodStart_periodEnd: {
+            employeeId,
+            periodStart: range.periodStart,
+            periodEnd: range.periodEnd
+          }
+        }
+      });
+
+      let totals;
+      if (storedSummary?.isClosed) {
+        totals = {
+          workedHours: toNumber(storedSummary.totalWorkedHours),
+          nightHours: toNumber(storedSummary.totalNightHours),
+          supplementaryHours: toNumber(storedSummary.totalSupplementaryHours),
+          extraordinaryHours: toNumber(storedSummary.totalExtraordinaryHours),
+          breakfast: storedSummary.totalBreakfast || 0,
+          reinforcedBreakfast: storedSummary.totalReinforcedBreakfast || 0,
+          snack1: storedSummary.totalSnack1 || 0,
+          afternoonSnack: storedSummary.totalAfternoonSnack || 0,
+          dryMeal: storedSummary.totalDryMeal || 0,
+          lunch: storedSummary.totalLunch || 0,
+          transport: toNumber(storedSummary.totalTransport),
+          permissionHours: toNumber(storedSummary.totalPermissions),
+          vacationDays: storedSummary.vacationDays || 0
+        };
+      } else {
+        const records = await prisma.attendanceRecord.findMany({
+          where: {
+            employeeId,
+            date: {
+              gte: range.periodStart,
+              lte: range.periodEnd
+            }
+          },
+          include: {
+            foodAllowance: true,
+            extraHours: true
+          }
+        });
+
+        totals = {
+          workedHours: 0,
+          nightHours: 0,
+          supplementaryHours: 0,
+          extraordinaryHours: 0,
+          breakfast: 0,
+          reinforcedBreakfast: 0,
+          snack1: 0,
+          afternoonSnack: 0,
+          dryMeal: 0,
+          lunch: 0,
+          transport: 0,
+          permissionHours: 0,
+          vacationDays: 0
+        };
+
+        for (const record of records) {
+          totals.workedHours += toNumber(record.workedHours);
+          totals.permissionHours += toNumber(record.permissionHours);
+          if (record.isVacation) totals.vacationDays += 1;
+
+          if (record.extraHours) {
+            totals.nightHours += toNumber(record.extraHours.nightHours);
+            totals.supplementaryHours += toNumber(record.extraHours.supplementaryHours);
+            totals.extraordinaryHours += toNumber(record.extraHours.extraordinaryHours);
+          }
+
+          if (record.foodAllowance) {
+            totals.breakfast += record.foodAllowance.breakfast;
+            totals.reinforcedBreakfast += record.foodAllowance.reinforcedBreakfast;
+            totals.snack1 += record.foodAllowance.snack1;
+            totals.afternoonSnack += record.foodAllowance.afternoonSnack;
+            totals.dryMeal += record.foodAllowance.dryMeal;
+            totals.lunch += record.foodAllowance.lunch;
+            totals.transport += toNumber(record.foodAllowance.transport);
+          }
+        }
+
+        totals.workedHours = round2(totals.workedHours);
+        totals.nightHours = round2(totals.nightHours);
+        totals.supplementaryHours = round2(totals.supplementaryHours);
+        totals.extraordinaryHours = round2(totals.extraordinaryHours);
+        totals.transport = round2(totals.transport);
+        totals.permissionHours = round2(totals.permissionHours);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          period: range.period,
+          periodStart: formatDateToString(range.periodStart),
+          periodEnd: formatDateToString(range.periodEnd),
+          status: !storedSummary ? 'NOT_CALCULATED' : storedSummary.isClosed ? 'CLOSED' : 'OPEN',
+          closedAt: storedSummary?.closedAt || null,
+          totals
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener resumen propio:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/me/food?from=2025-01-01&to=2025-01-31
+   * Alimentación recibida por día y totales por tipo (por defecto, el período en curso)
+   */
+  static async getFood(req: Request, res: Response): Promise<void> {
+    try {
+      const employeeId = getOwnEmployeeId(req);
+      if (!employeeId) {
+        res.status(404).json({
+          success: false,
+          message: 'El usuario no tiene un empleado asociado'
+        });
+        return;
+      }
+
+      const { fromDate, toDate } = resolveDateRange(dateRangeQuerySchema.parse(req.query));
+
+      if (countCalendarDays(fromDate, toDate) > MAX_RANGE_DAYS) {
+        res.status(400).json({
+          success: false,
+          message: `El rango de consulta no puede exceder ${MAX_RANGE_DAYS} días`
+        });
+        return;
+      }
+
+      const allowances = await prisma.foodAllowance.findMany({
+        where: {
+          attendance: {
+            employeeId,
+            date: {
+              gte: fromDate,
+              lte: toDate
+            }
+          }
+        },
+        include: {
+          attendance: {
+            select: { date: true }
+          }
+        },
+        orderBy: { attendance: { date: 'asc' } }
+      });
+
+      const totalsByType = Object.fromEntries(
+        Object.keys(FOOD_TYPE_FIELDS).map(code => [code, 0])
+      ) as Record<keyof typeof FOOD_TYPE_FIELDS, number>;
+      let totalTransport = 0;
+
+      const days = allowances.map(allowance => {
+        (Object.keys(FOOD_TYPE_FIELDS) as Array<keyof typeof FOOD_TYPE_FIELDS>).forEach(code => {
+          totalsByType[code] += allowance[FOOD_TYPE_FIELDS[code]];
+        });
+        totalTransport += toNumber(allowance.transport);
+
+        return {
+          date: formatDateToString(allowance.attendance.date),
+          breakfast: allowance.breakfast,
+          reinforcedBreakfast: allowance.reinforcedBreakfast,
+          snack1: allowance.snack1,
+          afternoonSnack: allowance.afternoonSnack,
+          dryMeal: allowance.dryMeal,
+          lunch: allowance.lunch,
+          transport: toNumber(allowance.transport)
+        };
+      });
+
+      res.json({
+        success: true,
+        data: {
+          days,
+          totals: (Object.keys(FOOD_TYPE_FIELDS) as Array<keyof typeof FOOD_TYPE_FIELDS>).map(code => ({
+            code,
+            name: FOOD_TYPES[code],
+            quantity: totalsByType[code]
+          })),
+          totalTransport: round2(totalTransport)
+        },
+        meta: {
+          from: formatDateToString(fromDate),
+          to: formatDateToString(toDate),
+          daysWithFood: days.length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener alimentación propia:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { MealType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../../server';
+import { FOOD_TYPES } from '../../../shared/constants';
+import { formatDateToString } from '../../../shared/utils/period';
+
+const FOOD_TYPE_CODES = Object.keys(FOOD_TYPES) as [keyof typeof FOOD_TYPES, ...(keyof typeof FOOD_TYPES)[]];
+
+// Validadores Zod
+const createMealTypeSchema = z.object({
+  code: z.enum(FOOD_TYPE_CODES, {
+    errorMap: () => ({ message: `Código inválido (${FOOD_TYPE_CODES.join(', ')})` })
+  }),
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform(val => val.trim()),
+  unitPrice: z.number()
+    .min(0, 'El precio no puede ser negativo')
+    .max(100, 'El precio no puede exceder $100'),
+  effectiveFrom: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  provider: z.string()
+    .max(150, 'El proveedor no puede exceder 150 caracteres')
+    .optional()
+});
+
+const updateMealTypeSchema = createMealTypeSchema.partial();
+
+const mealTypesQuerySchema = z.object({
+  code: z.enum(FOOD_TYPE_CODES).optional(),
+  // Solo los precios vigentes en esta fecha
+  activeOn: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional()
+});
+
+function formatMealType(mealType: MealType) {
+  return {
+    id: mealType.id,
+    code: mealType.code,
+    name: mealType.name,
+    unitPrice: parseFloat(mealType.unitPrice.toString()),
+    effectiveFrom: formatDateToString(mealType.effectiveFrom),
+    provider: mealType.provider,
+    createdAt: mealType.createdAt,
+    updatedAt: mealType.updatedAt
+  };
+}
+
+export class MealTypesController {
+
+  /**
+   * GET /api/meal-types
+   * Listar el historial de precios por tipo de alimentación
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, activeOn } = mealTypesQuerySchema.parse(req.query);
+
+      const mealTypes = await prisma.mealType.findMany({
+        where: {
+          ...(code && { code }),
+          ...(activeOn && { effectiveFrom: { lte: new Date(activeOn) } })
+        },
+        orderBy: [
+          { code: 'asc' },
+          { effectiveFrom: 'desc' }
+        ]
+      });
+
+      // Con activeOn se devuelve solo el precio más reciente de cada código
+      const result = activeOn
+        ? mealTypes.filter((mealType, index) => index === 0 || mealTypes[index - 1].code !== mealType.code)
+        : mealTypes;
+
+      res.json({
+        success: true,
+        data: result.map(formatMealType),
+        meta: {
+          total: result.length,
+          activeOn: activeOn || null
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener tipos de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/meal-types
+   * Registrar el precio de un tipo de alimentación a partir de una fecha (solo ADMIN)
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createMealTypeSchema.parse(req.body);
+      const effectiveFrom = new Date(validatedData.effectiveFrom);
+
+      const existingMealType = await prisma.mealType.findUnique({
+        where: {
+          code_effectiveFrom: {
+            code: validatedData.code,
+            effectiveFrom
+          }
+        }
+      });
+
+      if (existingMealType) {
+        res.status(409).json({
+          success: false,
+          message: `Ya existe un precio para ${validatedData.code} vigente desde ${validatedData.effectiveFrom}`
+        });
+        return;
+      }
+
+      const mealType = await prisma.mealType.create({
+        data: {
+          code: validatedData.code,
+          name: validatedData.name,
+          unitPrice: new Decimal(validatedData.unitPrice.toFixed(2)),
+          effectiveFrom,
+          provider: validatedData.provider || null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Precio de alimentación registrado exitosamente',
+        data: formatMealType(mealType)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al crear tipo de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/meal-types/:id
+   * Corregir un precio registrado (solo ADMIN)
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = updateMealTypeSchema.parse(req.body);
+
+      const existingMealType = await prisma.mealType.findUnique({
+        where: { id }
+      });
+
+      if (!existingMealType) {
+        res.status(404).json({
+          success: false,
+          message: 'Tipo de alimentación no encontrado'
+        });
+        return;
+      }
+
+      // Verificar que no exista otro precio para el mismo código y fecha
+      const code = validatedData.code || existingMealType.code;
+      const effectiveFrom = validatedData.effectiveFrom
+        ? new Date(validatedData.effectiveFrom)
+        : existingMealType.effectiveFrom;
+
+      const duplicateMealType = await prisma.mealType.findFirst({
+        where: {
+          code,
+          effectiveFrom,
+          id: { not: id }
+        }
+      });
+
+      if (duplicateMealType) {
+        res.status(409).json({
+          success: false,
+          message: `Ya existe un precio para ${code} vigente desde ${formatDateToString(effectiveFrom)}`
+        });
+        return;
+      }
+
+      const updatedMealType = await prisma.mealType.update({
+        where: { id },
+        data: {
+          code,
+          effectiveFrom,
+          ...(validatedData.name && { name: validatedData.name }),
+          ...(validatedData.unitPrice !== undefined && {
+            unitPrice: new Decimal(validatedData.unitPrice.toFixed(2))
+          }),
+          ...(validatedData.provider !== undefined && { provider: validatedData.provider || null })
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Precio de alimentación actualizado exitosamente',
+        data: formatMealType(updatedMealType)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar tipo de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/meal-types/:id
+   * Eliminar un precio registrado (solo ADMIN)
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const mealType = await prisma.mealType.findUnique({
+        where: { id }
+      });
+
+      if (!mealType) {
+        res.status(404).json({
+          success: false,
+          message: 'Tipo de alimentación no encontrado'
+        });
+        return;
+      }
+
+      await prisma.mealType.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Precio de alimentación eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar tipo de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -0,0 +1,366 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { formatDateToString, getPeriodRange, PeriodRange } from '../../../shared/utils/period';
+import { createAreaResolver } from '../../database/employmentHistory';
+import { isPeriodClosed } from '../../database/periods';
+import { TransactionClient } from '../../database/client';
+
+// Validadores Zod
+const periodSchema = z.string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Formato de período inválido (YYYY-MM)');
+
+const periodBodySchema = z.object({
+  period: periodSchema
+});
+
+// Totales acumulados por empleado durante el período
+interface EmployeePeriodTotals {
+  workedHours: number;
+  nightHours: number;
+  supplementaryHours: number;
+  extraordinaryHours: number;
+  breakfast: number;
+  reinforcedBreakfast: number;
+  snack1: number;
+  afternoonSnack: number;
+  dryMeal: number;
+  lunch: number;
+  transport: number;
+  permissionHours: number;
+  vacationDays: number;
+}
+
+function toNumber(value: Decimal | null | undefined): number {
+  return value ? parseFloat(value.toString()) : 0;
+}
+
+function toDecimal(value: number): Decimal {
+  return new Decimal(value.toFixed(2));
+}
+
+/**
+ * Recalcular los MonthlySummary de un período a partir de AttendanceRecord,
+ * FoodAllowance y ExtraHours. Reemplaza los resúmenes existentes del período.
+ */
+async function materializePeriod(
+  tx: TransactionClient,
+  range: PeriodRange,
+  closing?: { closedBy: string | null }
+): Promise<number> {
+  const records = await tx.attendanceRecord.findMany({
+    where: {
+      date: {
+        gte: range.periodStart,
+        lte: range.periodEnd
+      }
+    },
+    include: {
+      foodAllowance: true,
+      extraHours: true
+    }
+  });
+
+  const totalsByEmployee = new Map<string, EmployeePeriodTotals>();
+
+  for (const record of records) {
+    let totals = totalsByEmployee.get(record.employeeId);
+    if (!totals) {
+      totals = {
+        workedHours: 0,
+        nightHours: 0,
+        supplementaryHours: 0,
+        extraordinaryHours: 0,
+        breakfast: 0,
+        reinforcedBreakfast: 0,
+        snack1: 0,
+        afternoonSnack: 0,
+        dryMeal: 0,
+        lunch: 0,
+        transport: 0,
+        permissionHours: 0,
+        vacationDays: 0
+      };
+      totalsByEmployee.set(record.employeeId, totals);
+    }
+
+    totals.workedHours += toNumber(record.workedHours);
+    totals.permissionHours += toNumber(record.permissionHours);
+    if (record.isVacation) totals.vacationDays += 1;
+
+    if (record.extraHours) {
+      totals.nightHours += toNumber(record.extraHours.nightHours);
+      totals.supplementaryHours += toNumber(record.extraHours.supplementaryHours);
+      totals.extraordinaryHours += toNumber(record.extraHours.extraordinaryHours);
+    }
+
+    if (record.foodAllowance) {
+      totals.breakfast += record.foodAllowance.breakfast;
+      totals.reinforcedBreakfast += record.foodAllowance.reinforcedBreakfast;
+      totals.snack1 += record.foodAllowance.snack1;
+      totals.afternoonSnack += record.foodAllowance.afternoonSnack;
+      totals.dryMeal += record.foodAllowance.dryMeal;
+      totals.lunch += record.foodAllowance.lunch;
+      totals.transport += toNumber(record.foodAllowance.transport);
+    }
+  }
+
+  // Reemplazar los resúmenes del período (incluye empleados que ya no tienen registros)
+  await tx.monthlySummary.deleteMany({
+    where: {
+      periodStart: range.periodStart,
+      periodEnd: range.periodEnd
+    }
+  });
+
+  const closedAt = closing ? new Date() : null;
+
+  await tx.monthlySummary.createMany({
+    data: Array.from(totalsByEmployee.entries()).map(([employeeId, totals]) => ({
+      employeeId,
+      periodStart: range.periodStart,
+      periodEnd: range.periodEnd,
+      totalWorkedHours: toDecimal(totals.workedHours),
+      totalNightHours: toDecimal(totals.nightHours),
+      totalSupplementaryHours: toDecimal(totals.supplementaryHours),
+      totalExtraordinaryHours: toDecimal(totals.extraordinaryHours),
+      totalBreakfast: totals.breakfast,
+      totalReinforcedBreakfast: totals.reinforcedBreakfast,
+      totalSnack1: totals.snack1,
+      totalAfternoonSnack: totals.afternoonSnack,
+      totalDryMeal: totals.dryMeal,
+      totalLunch: totals.lunch,
+      totalTransport: toDecimal(totals.transport),
+      totalPermissions: toDecimal(totals.permissionHours),
+      vacationDays: totals.vacationDays,
+      isClosed: !!closing,
+      closedAt,
+      closedBy: closing?.closedBy || null
+    }))
+  });
+
+  return totalsByEmployee.size;
+}
+
+export class PeriodsController {
+
+  /**
+   * GET /api/periods/:period
+   * Obtener los resúmenes mensuales materializados de un período (YYYY-MM)
+   */
+  static async getSummaries(req: Request, res: Response): Promise<void> {
+    try {
+      const period = periodSchema.parse(req.params.period);
+      const range = getPeriodRange(period);
+
+      const summaries = await prisma.monthlySummary.findMany({
+        where: {
+          periodStart: range.periodStart,
+          periodEnd: range.periodEnd
+        },
+        include: {
+          employee: {
+            select: {
+              id: true,
+              identification: true,
+              firstName: true,
+              lastName: true,
+              areaId: true
+            }
+          }
+        },
+        orderBy: [
+          { employee: { lastName: 'asc' } },
+          { employee: { firstName: 'asc' } }
+        ]
+      });
+
+      const isClosed = summaries.some(summary => summary.isClosed);
+
+      // Área del empleado al cierre del período según su historial laboral
+      const [resolveArea, areas] = await Promise.all([
+        createAreaResolver(prisma, summaries.map(summary => summary.employee.id)),
+        prisma.area.findMany({ select: { id: true, name: true } })
+      ]);
+      const areaNames = new Map(areas.map(area => [area.id, area.name]));
+      const areaNameAtPeriodEnd = (employee: { id: string; areaId: string | null }): string | null => {
+        const areaId = resolveArea(employee.id, employee.areaId, range.periodEnd);
+        return areaId ? areaNames.get(areaId) || null : null;
+      };
+
+      res.json({
+        success: true,
+        data: {
+          period,
+          periodStart: formatDateToString(range.periodStart),
+          periodEnd: formatDateToString(range.periodEnd),
+          status: summaries.length === 0 ? 'NOT_CALCULATED' : isClosed ? 'CLOSED' : 'OPEN',
+          closedAt: isClosed ? summaries[0].closedAt : null,
+          summaries: summaries.map(summary => ({
+            employeeId: summary.employee.id,
+            identification: summary.employee.identification,
+            fullName: `${summary.employee.firstName} ${summary.employee.lastName}`,
+            area: areaNameAtPeriodEnd(summary.employee),
+            totalWorkedHours: toNumber(summary.totalWorkedHours),
+            totalNightHours: toNumber(summary.totalNightHours),
+            totalSupplementaryHours: toNumber(summary.totalSupplementaryHours),
+            totalExtraordinaryHours: toNumber(summary.totalExtraordinaryHours),
+            totalBreakfast: summary.totalBreakfast,
+            totalReinforcedBreakfast: summary.totalReinforcedBreakfast,
+            totalSnack1: summary.totalSnack1,
+            totalAfternoonSnack: summary.totalAfternoonSnack,
+            totalDryMeal: summary.totalDryMeal,
+            totalLunch: summary.totalLunch,
+            totalTransport: toNumber(summary.totalTransport),
+            totalPermissions: toNumber(summary.totalPermissions),
+            vacationDays: summary.vacationDays
+          }))
+        },
+        meta: {
+          totalEmployees: summaries.length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener resúmenes del período:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/periods/calculate
+   * Recalcular los resúmenes de un período abierto sin cerrarlo
+   */
+  static async calculate(req: Request, res: Response): Promise<void> {
+    try {
+      const { period } = periodBodySchema.parse(req.body);
+      const range = getPeriodRange(period);
+
+      const result = await prisma.$transaction(async (tx) => {
+        if (await isPeriodClosed(tx, range)) {
+          return null;
+        }
+        return materializePeriod(tx, range);
+      }, { timeout: 30000 });
+
+      if (result === null) {
+        res.status(409).json({
+          success: false,
+          message: `El período ${period} ya está cerrado y no puede recalcularse`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Período ${period} recalculado exitosamente`,
+        data: {
+          period,
+          periodStart: formatDateToString(range.periodStart),
+          periodEnd: formatDateToString(range.periodEnd),
+          status: 'OPEN',
+          employeesSummarized: result
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al recalcular período:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/periods/close
+   * Recalcular y cerrar definitivamente un período (solo ADMIN)
+   */
+  static async close(req: Request, res: Response): Promise<void> {
+    try {
+      const { period } = periodBodySchema.parse(req.body);
+      const range = getPeriodRange(period);
+      const user = getCurrentUser(req);
+
+      const result = await prisma.$transaction(async (tx) => {
+        if (await isPeriodClosed(tx, range)) {
+          return { status: 'ALREADY_CLOSED' as const, employeesSummarized: 0 };
+        }
+
+        const employeesSummarized = await materializePeriod(tx, range, { closedBy: user?.id || null });
+        if (employeesSummarized === 0) {
+          return { status: 'EMPTY' as const, employeesSummarized };
+        }
+
+        return { status: 'CLOSED' as const, employeesSummarized };
+      }, { timeout: 30000 });
+
+      if (result.status === 'ALREADY_CLOSED') {
+        res.status(409).json({
+          success: false,
+          message: `El período ${period} ya está cerrado`
+        });
+        return;
+      }
+
+      if (result.status === 'EMPTY') {
+        res.status(400).json({
+          success: false,
+          message: `No existen registros de asistencia entre ${formatDateToString(range.periodStart)} y ${formatDateToString(range.periodEnd)}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Período ${period} cerrado exitosamente`,
+        data: {
+          period,
+          periodStart: formatDateToString(range.periodStart),
+          periodEnd: formatDateToString(range.periodEnd),
+          status: 'CLOSED',
+          employeesSummarized: result.employeesSummarized
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al cerrar período:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
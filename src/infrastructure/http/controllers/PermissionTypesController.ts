@@ -0,0 +1,261 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { PermissionType } from '@prisma/client';
+import { prisma } from '../../../server';
+
+// Validadores Zod
+const createPermissionTypeSchema = z.object({
+  code: z.string()
+    .min(1, 'El código es requerido')
+    .max(20, 'El código no puede exceder 20 caracteres')
+    .regex(/^[A-Za-z0-9_]+$/, 'El código solo puede contener letras, números y guion bajo')
+    .transform(val => val.toUpperCase()),
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform(val => val.trim()),
+  isPaid: z.boolean().default(false),
+  requiresDocument: z.boolean().default(false),
+  isActive: z.boolean().default(true)
+});
+
+const updatePermissionTypeSchema = z.object({
+  code: createPermissionTypeSchema.shape.code.optional(),
+  name: createPermissionTypeSchema.shape.name.optional(),
+  isPaid: z.boolean().optional(),
+  requiresDocument: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+const permissionTypesQuerySchema = z.object({
+  includeInactive: z.string()
+    .optional()
+    .transform(val => val === 'true')
+});
+
+function formatPermissionType(permissionType: PermissionType & { _count?: { attendanceRecords: number } }) {
+  return {
+    id: permissionType.id,
+    code: permissionType.code,
+    name: permissionType.name,
+    isPaid: permissionType.isPaid,
+    requiresDocument: permissionType.requiresDocument,
+    isActive: permissionType.isActive,
+    ...(permissionType._count && { recordsCount: permissionType._count.attendanceRecords }),
+    createdAt: permissionType.createdAt,
+    updatedAt: permissionType.updatedAt
+  };
+}
+
+export class PermissionTypesController {
+
+  /**
+   * GET /api/permission-types
+   * Listar el catálogo de tipos de permiso (por defecto solo los activos)
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = permissionTypesQuerySchema.parse(req.query);
+
+      const permissionTypes = await prisma.permissionType.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: {
+          _count: {
+            select: { attendanceRecords: true }
+          }
+        },
+        orderBy: { name: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        data: permissionTypes.map(formatPermissionType),
+        meta: {
+          total: permissionTypes.length,
+          paid: permissionTypes.filter(permissionType => permissionType.isPaid).length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener tipos de permiso:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/permission-types
+   * Crear un tipo de permiso (solo ADMIN)
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createPermissionTypeSchema.parse(req.body);
+
+      const existingPermissionType = await prisma.permissionType.findUnique({
+        where: { code: validatedData.code }
+      });
+
+      if (existingPermissionType) {
+        res.status(409).json({
+          success: false,
+          message: `Ya existe un tipo de permiso con el código ${validatedData.code}`
+        });
+        return;
+      }
+
+      const permissionType = await prisma.permissionType.create({
+        data: validatedData
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Tipo de permiso creado exitosamente',
+        data: formatPermissionType(permissionType)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al crear tipo de permiso:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/permission-types/:id
+   * Actualizar un tipo de permiso (solo ADMIN)
+   * El cambio de isPaid aplica a los registros que se guarden o corrijan desde ahora
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = updatePermissionTypeSchema.parse(req.body);
+
+      const existingPermissionType = await prisma.permissionType.findUnique({
+        where: { id }
+      });
+
+      if (!existingPermissionType) {
+        res.status(404).json({
+          success: false,
+          message: 'Tipo de permiso no encontrado'
+        });
+        return;
+      }
+
+      if (validatedData.code && validatedData.code !== existingPermissionType.code) {
+        const duplicatePermissionType = await prisma.permissionType.findUnique({
+          where: { code: validatedData.code }
+        });
+
+        if (duplicatePermissionType) {
+          res.status(409).json({
+            success: false,
+            message: `Ya existe un tipo de permiso con el código ${validatedData.code}`
+          });
+          return;
+        }
+      }
+
+      const updatedPermissionType = await prisma.permissionType.update({
+        where: { id },
+        data: validatedData
+      });
+
+      res.json({
+        success: true,
+        message: 'Tipo de permiso actualizado exitosamente',
+        data: formatPermissionType(updatedPermissionType)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar tipo de permiso:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/permission-types/:id
+   * Eliminar un tipo de permiso sin registros asociados (solo ADMIN)
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const permissionType = await prisma.permissionType.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { attendanceRecords: true }
+          }
+        }
+      });
+
+      if (!permissionType) {
+        res.status(404).json({
+          success: false,
+          message: 'Tipo de permiso no encontrado'
+        });
+        return;
+      }
+
+      // Con registros asociados se desactiva en lugar de eliminarse
+      if (permissionType._count.attendanceRecords > 0) {
+        res.status(409).json({
+          success: false,
+          message: `El tipo de permiso tiene ${permissionType._count.attendanceRecords} registros de asistencia. Desactívelo con isActive: false`
+        });
+        return;
+      }
+
+      await prisma.permissionType.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Tipo de permiso eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar tipo de permiso:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
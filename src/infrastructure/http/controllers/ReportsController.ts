@@ -0,0 +1,850 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../../server';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
+import { formatDateToString } from '../../../shared/utils/period';
+import { calculateExtraHoursPay, ExtraHoursTotals, getHourlyRate, prorateSalary, roundMoney } from '../../../shared/utils/payroll';
+import { FOOD_TYPE_FIELDS, FOOD_TYPES } from '../../../shared/constants';
+import { createAreaResolver, createSalaryResolver, findEmployeeIdsInAreas } from '../../database/employmentHistory';
+
+const MAX_REPORT_DAYS = 62;
+
+// Validadores Zod
+const dateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)');
+
+const areaIdsSchema = z.string()
+  .optional()
+  .transform(val => val ? val.split(',').map(id => id.trim()) : undefined)
+  .pipe(z.array(z.string().uuid('ID de área inválido')).optional());
+
+function daysBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
+}
+
+const payrollQuerySchema = z.object({
+  periodStart: dateSchema,
+  periodEnd: dateSchema,
+  areaIds: areaIdsSchema
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: 'periodStart debe ser anterior o igual a periodEnd',
+  path: ['periodEnd']
+}).refine(data => daysBetween(data.periodStart, data.periodEnd) <= MAX_REPORT_DAYS, {
+  message: `El rango no puede superar ${MAX_REPORT_DAYS} días`,
+  path: ['periodEnd']
+});
+
+const foodReportQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  areaIds: areaIdsSchema
+}).refine(data => data.from <= data.to, {
+  message: 'from debe ser anterior o igual a to',
+  path: ['to']
+}).refine(data => daysBetween(data.from, data.to) <= MAX_REPORT_DAYS, {
+  message: `El rango no puede superar ${MAX_REPORT_DAYS} días`,
+  path: ['to']
+});
+
+const permissionsQuerySchema = z.object({
+  periodStart: dateSchema,
+  periodEnd: dateSchema,
+  areaIds: areaIdsSchema,
+  employeeId: z.string()
+    .uuid('ID de empleado inválido')
+    .optional()
+}).refine(data => data.periodStart <= data.periodEnd, {
+  message: 'periodStart debe ser anterior o igual a periodEnd',
+  path: ['periodEnd']
+}).refine(data => daysBetween(data.periodStart, data.periodEnd) <= MAX_REPORT_DAYS, {
+  message: `El rango no puede superar ${MAX_REPORT_DAYS} días`,
+  path: ['periodEnd']
+});
+
+type FoodTypeCode = keyof typeof FOOD_TYPE_FIELDS;
+
+const FOOD_TYPE_CODES = Object.keys(FOOD_TYPE_FIELDS) as FoodTypeCode[];
+
+// Cantidad y costo por tipo de alimentación
+type MealTotals = Record<FoodTypeCode, { count: number; amount: number }>;
+
+interface FoodCostTotals {
+  meals: MealTotals;
+  mealsCost: number;
+  transport: number;
+  total: number;
+}
+
+interface MealPrice {
+  effectiveFrom: string;
+  unitPrice: number;
+  provider: string | null;
+}
+
+// Montos de nómina que se suman por empleado, por área y en total
+interface PayrollAmounts {
+  workedHours: number;
+  nightHours: number;
+  supplementaryHours: number;
+  extraordinaryHours: number;
+  nightSurcharge: number;
+  supplementaryPay: number;
+  extraordinaryPay: number;
+  extraHoursPay: number;
+  transport: number;
+  baseSalary: number;
+  totalVariableCost: number;
+  totalCost: number;
+}
+
+function toNumber(value: Decimal | null | undefined): number {
+  return value ? parseFloat(value.toString()) : 0;
+}
+
+function emptyAmounts(): PayrollAmounts {
+  return {
+    workedHours: 0,
+    nightHours: 0,
+    supplementaryHours: 0,
+    extraordinaryHours: 0,
+    nightSurcharge: 0,
+    supplementaryPay: 0,
+    extraordinaryPay: 0,
+    extraHoursPay: 0,
+    transport: 0,
+    baseSalary: 0,
+    totalVariableCost: 0,
+    totalCost: 0
+  };
+}
+
+function addAmounts(target: PayrollAmounts, source: PayrollAmounts): void {
+  (Object.keys(target) as (keyof PayrollAmounts)[]).forEach(key => {
+    target[key] = roundMoney(target[key] + source[key]);
+  });
+}
+
+function emptyFoodTotals(): FoodCostTotals {
+  const meals = {} as MealTotals;
+  FOOD_TYPE_CODES.forEach(code => {
+    meals[code] = { count: 0, amount: 0 };
+  });
+
+  return { meals, mealsCost: 0, transport: 0, total: 0 };
+}
+
+function addFoodTotals(target: FoodCostTotals, source: FoodCostTotals): void {
+  FOOD_TYPE_CODES.forEach(code => {
+    target.meals[code].count += source.meals[code].count;
+    target.meals[code].amount = roundMoney(target.meals[code].amount + source.meals[code].amount);
+  });
+  target.mealsCost = roundMoney(target.mealsCost + source.mealsCost);
+  target.transport = roundMoney(target.transport + source.transport);
+  target.total = roundMoney(target.total + source.total);
+}
+
+// Horas de permiso de un tipo (los registros sin tipo se agrupan como no remunerados)
+interface PermissionTypeTotals {
+  permissionTypeId: string | null;
+  code: string;
+  name: string;
+  isPaid: boolean;
+  records: number;
+  hours: number;
+}
+
+const UNTYPED_PERMISSION = { id: null, code: 'SIN_TIPO', name: 'Sin tipo registrado', isPaid: false };
+
+function addPermissionHours(
+  byType: Map<string, PermissionTypeTotals>,
+  permissionType: { id: string | null; code: string; name: string; isPaid: boolean },
+  hours: number
+): void {
+  let totals = byType.get(permissionType.code);
+  if (!totals) {
+    totals = {
+      permissionTypeId: permissionType.id,
+      code: permissionType.code,
+      name: permissionType.name,
+      isPaid: permissionType.isPaid,
+      records: 0,
+      hours: 0
+    };
+    byType.set(permissionType.code, totals);
+  }
+
+  totals.records += 1;
+  totals.hours = roundMoney(totals.hours + hours);
+}
+
+// Precio vigente en la fecha: el de effectiveFrom más reciente que no la supere
+function findPriceOn(prices: MealPrice[] | undefined, date: string): MealPrice | undefined {
+  return prices?.find(price => price.effectiveFrom <= date);
+}
+
+// Horas y transporte acumulados de un empleado (en total o en un área)
+interface PayrollHours {
+  workedHours: number;
+  nightHours: number;
+  supplementaryHours: number;
+  extraordinaryHours: number;
+  transport: number;
+  // Horas extras multiplicadas por el valor hora vigente en la fecha de cada registro
+  valuedHours: ExtraHoursTotals;
+}
+
+function emptyHours(): PayrollHours {
+  return {
+    workedHours: 0,
+    nightHours: 0,
+    supplementaryHours: 0,
+    extraordinaryHours: 0,
+    transport: 0,
+    valuedHours: { nightHours: 0, supplementaryHours: 0, extraordinaryHours: 0 }
+  };
+}
+
+function buildPayrollAmounts(hours: PayrollHours, baseSalary: number): PayrollAmounts {
+  // Las horas ya están valoradas, se aplican solo los recargos
+  const pay = calculateExtraHoursPay(hours.valuedHours, 1);
+  const transport = roundMoney(hours.transport);
+  const totalVariableCost = roundMoney(pay.total + transport);
+
+  return {
+    workedHours: roundMoney(hours.workedHours),
+    nightHours: roundMoney(hours.nightHours),
+    supplementaryHours: roundMoney(hours.supplementaryHours),
+    extraordinaryHours: roundMoney(hours.extraordinaryHours),
+    nightSurcharge: pay.nightSurcharge,
+    supplementaryPay: pay.supplementaryPay,
+    extraordinaryPay: pay.extraordinaryPay,
+    extraHoursPay: pay.total,
+    transport,
+    baseSalary,
+    totalVariableCost,
+    totalCost: roundMoney(baseSalary + totalVariableCost)
+  };
+}
+
+type ReportArea = { id: string; name: string } | null;
+
+type AreaLookup = (employee: { id: string; areaId: string | null }, date: Date) => ReportArea;
+
+/**
+ * Área de cada empleado en una fecha según el historial laboral
+ */
+async function createAreaLookup(employeeIds: string[]): Promise<AreaLookup> {
+  const [resolveArea, areas] = await Promise.all([
+    createAreaResolver(prisma, employeeIds),
+    prisma.area.findMany({ select: { id: true, name: true } })
+  ]);
+  const areasById = new Map(areas.map(area => [area.id, area]));
+
+  return (employee, date) => {
+    const areaId = resolveArea(employee.id, employee.areaId, date);
+    return areaId ? areasById.get(areaId) || null : null;
+  };
+}
+
+/**
+ * Área de cada registro: la del empleado en la fecha del registro
+ */
+async function createRecordAreaLookup(
+  records: { date: Date; employee: { id: string; areaId: string | null } }[]
+): Promise<(record: { date: Date; employee: { id: string; areaId: string | null } }) => ReportArea> {
+  const findArea = await createAreaLookup(Array.from(new Set(records.map(record => record.employee.id))));
+  return record => findArea(record.employee, record.date);
+}
+
+const PAYROLL_EMPLOYEE_SELECT = {
+  id: true,
+  identification: true,
+  firstName: true,
+  lastName: true,
+  position: true,
+  baseSalary: true,
+  hireDate: true,
+  terminationDate: true,
+  areaId: true
+} satisfies Prisma.EmployeeSelect;
+
+function isInAreas(area: ReportArea, areaIds: string[] | undefined): boolean {
+  return !areaIds || (!!area && areaIds.includes(area.id));
+}
+
+export class ReportsController {
+
+  /**
+   * GET /api/reports/payroll?periodStart=2024-12-26&periodEnd=2025-01-25&areaIds=id1,id2
+   * Costo de nómina por empleado y por área: sueldo base proporcional al rango, horas extras valoradas y transporte
+   * ÚTIL PARA RRHH: Conciliar con el sistema de nómina antes del corte del 25
+   */
+  static async getPayroll(req: Request, res: Response): Promise<void> {
+    try {
+      const { periodStart, periodEnd, areaIds: requestedAreaIds } = payrollQuerySchema.parse(req.query);
+      // Un supervisor sin filtro de área solo consulta sus áreas
+      const areaIds = requestedAreaIds || getAllowedAreaIds(req) || undefined;
+
+      const rangeStart = new Date(periodStart);
+      const rangeEnd = new Date(periodEnd);
+
+      // Filtro amplio por área; cada registro se atribuye al área del empleado en su fecha
+      const candidateIds = areaIds ? await findEmployeeIdsInAreas(prisma, areaIds) : undefined;
+
+      const [staff, records] = await Promise.all([
+        // Personal contratado en algún día del rango, tenga o no registros de asistencia
+        prisma.employee.findMany({
+          where: {
+            ...(candidateIds && { id: { in: candidateIds } }),
+            OR: [{ hireDate: null }, { hireDate: { lte: rangeEnd } }],
+            AND: [{
+              OR: [
+                { terminationDate: { gte: rangeStart } },
+                { terminationDate: null, isActive: true }
+              ]
+            }]
+          },
+          select: PAYROLL_EMPLOYEE_SELECT
+        }),
+        prisma.attendanceRecord.findMany({
+          where: {
+            date: {
+              gte: rangeStart,
+              lte: rangeEnd
+            },
+            ...(candidateIds && { employeeId: { in: candidateIds } })
+          },
+          select: {
+            date: true,
+            isVacation: true,
+            workedHours: true,
+            employee: { select: PAYROLL_EMPLOYEE_SELECT },
+            extraHours: true,
+            foodAllowance: {
+              select: { transport: true }
+            }
+          }
+        })
+      ]);
+
+      type PayrollEmployee = typeof staff[number];
+
+      const employeeIds = Array.from(new Set([
+        ...staff.map(employee => employee.id),
+        ...records.map(record => record.employee.id)
+      ]));
+      const [findArea, resolveSalary] = await Promise.all([
+        createAreaLookup(employeeIds),
+        createSalaryResolver(prisma, employeeIds)
+      ]);
+      const salaryOn = (employee: PayrollEmployee, date: Date) =>
+        resolveSalary(employee.id, employee.baseSalary ? toNumber(employee.baseSalary) : null, date);
+
+      // Días del rango en que el empleado estuvo contratado
+      const employmentRange = (employee: PayrollEmployee) => ({
+        salaryFrom: employee.hireDate && employee.hireDate > rangeStart ? employee.hireDate : rangeStart,
+        salaryTo: employee.terminationDate && employee.terminationDate < rangeEnd ? employee.terminationDate : rangeEnd
+      });
+
+      // Acumular horas y transporte por empleado y, dentro de él, por área trabajada
+      const byEmployee = new Map<string, PayrollHours & {
+        employee: PayrollEmployee;
+        area: ReportArea;
+        lastDate: Date;
+        daysWorked: number;
+        vacationDays: number;
+        byArea: Map<string, PayrollHours & { area: ReportArea }>;
+      }>();
+      let recordsProcessed = 0;
+
+      for (const record of records) {
+        const area = findArea(record.employee, record.date);
+        if (!isInAreas(area, areaIds)) continue;
+        recordsProcessed += 1;
+
+        let totals = byEmployee.get(record.employee.id);
+        if (!totals) {
+          totals = {
+            employee: record.employee,
+            area,
+            lastDate: record.date,
+            daysWorked: 0,
+            vacationDays: 0,
+            byArea: new Map(),
+            ...emptyHours()
+          };
+          byEmployee.set(record.employee.id, totals);
+        }
+
+        // El empleado se muestra en el área de su último registro del período
+        if (record.date >= totals.lastDate) {
+          totals.area = area;
+          totals.lastDate = record.date;
+        }
+
+        const areaKey = area?.id || 'sin-area';
+        let areaHours = totals.byArea.get(areaKey);
+        if (!areaHours) {
+          areaHours = { area, ...emptyHours() };
+          totals.byArea.set(areaKey, areaHours);
+        }
+
+        if (record.isVacation) {
+          totals.vacationDays += 1;
+        } else if (toNumber(record.workedHours) > 0) {
+          totals.daysWorked += 1;
+        }
+
+        // Las horas extras se valoran con el sueldo vigente en la fecha del registro
+        const hourlyRate = getHourlyRate(salaryOn(record.employee, record.date) || 0);
+        const nightHours = toNumber(record.extraHours?.nightHours);
+        const supplementaryHours = toNumber(record.extraHours?.supplementaryHours);
+        const extraordinaryHours = toNumber(record.extraHours?.extraordinaryHours);
+
+        [totals, areaHours].forEach(hours => {
+          hours.workedHours += toNumber(record.workedHours);
+          hours.nightHours += nightHours;
+          hours.supplementaryHours += supplementaryHours;
+          hours.extraordinaryHours += extraordinaryHours;
+          hours.transport += toNumber(record.foodAllowance?.transport);
+          hours.valuedHours.nightHours += nightHours * hourlyRate;
+          hours.valuedHours.supplementaryHours += supplementaryHours * hourlyRate;
+          hours.valuedHours.extraordinaryHours += extraordinaryHours * hourlyRate;
+        });
+      }
+
+      // Personal sin registros en el rango (licencia, planilla faltante): solo cobra su sueldo base,
+      // en el área que tenía al final del período contratado
+      for (const employee of staff) {
+        if (byEmployee.has(employee.id)) continue;
+
+        const { salaryTo } = employmentRange(employee);
+        const area = findArea(employee, salaryTo);
+        if (!isInAreas(area, areaIds)) continue;
+
+        byEmployee.set(employee.id, {
+          employee,
+          area,
+          lastDate: salaryTo,
+          daysWorked: 0,
+          vacationDays: 0,
+          byArea: new Map([[area?.id || 'sin-area', { area, ...emptyHours() }]]),
+          ...emptyHours()
+        });
+      }
+
+      // Totales por área: las horas van al área donde se trabajaron; el sueldo base
+      // y el conteo de empleados, al área del último registro
+      const byArea = new Map<string, { areaId: string | null; areaName: string; employeesCount: number; totals: PayrollAmounts }>();
+
+      const employees = Array.from(byEmployee.values()).map(totals => {
+        // Sueldo de los días del rango en que el empleado estuvo contratado, con el vigente cada día
+        const { salaryFrom, salaryTo } = employmentRange(totals.employee);
+        const baseSalary = prorateSalary(salaryFrom, salaryTo, date => salaryOn(totals.employee, date) || 0);
+
+        // Sueldo mensual y valor hora al final del rango
+        const monthlySalary = salaryOn(totals.employee, salaryTo);
+        const hourlyRate = getHourlyRate(monthlySalary || 0);
+
+        const amounts = buildPayrollAmounts(totals, baseSalary);
+
+        totals.byArea.forEach((areaHours, areaKey) => {
+          const isEmployeeArea = areaKey === (totals.area?.id || 'sin-area');
+
+          let area = byArea.get(areaKey);
+          if (!area) {
+            area = {
+              areaId: areaHours.area?.id || null,
+              areaName: areaHours.area?.name || 'Sin área',
+              employeesCount: 0,
+              totals: emptyAmounts()
+            };
+            byArea.set(areaKey, area);
+          }
+
+          if (isEmployeeArea) {
+            area.employeesCount += 1;
+          }
+          addAmounts(area.totals, buildPayrollAmounts(areaHours, isEmployeeArea ? baseSalary : 0));
+        });
+
+        return {
+          employeeId: totals.employee.id,
+          identification: totals.employee.identification,
+          fullName: `${totals.employee.firstName} ${totals.employee.lastName}`,
+          position: totals.employee.position,
+          area: totals.area,
+          ...(totals.byArea.size > 1 && {
+            areasWorked: Array.from(totals.byArea.values()).map(areaHours => areaHours.area)
+          }),
+          monthlySalary,
+          hourlyRate: Math.round(hourlyRate * 10000) / 10000,
+          missingSalary: !monthlySalary,
+          daysWorked: totals.daysWorked,
+          vacationDays: totals.vacationDays,
+          ...amounts
+        };
+      }).sort((a, b) =>
+        (a.area?.name || '').localeCompare(b.area?.name || '') || a.fullName.localeCompare(b.fullName)
+      );
+
+      const totals = emptyAmounts();
+      employees.forEach(employee => addAmounts(totals, employee));
+
+      res.json({
+        success: true,
+        data: {
+          periodStart: formatDateToString(new Date(periodStart)),
+          periodEnd: formatDateToString(new Date(periodEnd)),
+          employees,
+          areas: Array.from(byArea.values()).sort((a, b) => a.areaName.localeCompare(b.areaName)),
+          totals
+        },
+        meta: {
+          totalEmployees: employees.length,
+          totalAreas: byArea.size,
+          employeesWithoutSalary: employees.filter(employee => employee.missingSalary).length,
+          recordsProcessed
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar reporte de nómina:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/reports/permissions?periodStart=2024-12-26&periodEnd=2025-01-25&areaIds=id1,id2&employeeId=uuid
+   * Horas de permiso por tipo, por empleado y en total, separando remuneradas y no remuneradas
+   * ÚTIL PARA RRHH: Distinguir citas médicas, calamidades y trámites personales
+   */
+  static async getPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const { periodStart, periodEnd, areaIds: requestedAreaIds, employeeId } = permissionsQuerySchema.parse(req.query);
+      // Un supervisor sin filtro de área solo consulta sus áreas
+      const areaIds = requestedAreaIds || getAllowedAreaIds(req) || undefined;
+
+      // Filtro amplio por área; cada registro se atribuye al área del empleado en su fecha
+      const candidateIds = areaIds && !employeeId ? await findEmployeeIdsInAreas(prisma, areaIds) : undefined;
+
+      const records = await prisma.attendanceRecord.findMany({
+        where: {
+          date: {
+            gte: new Date(periodStart),
+            lte: new Date(periodEnd)
+          },
+          permissionHours: { gt: 0 },
+          ...(employeeId && { employeeId }),
+          ...(candidateIds && { employeeId: { in: candidateIds } })
+        },
+        select: {
+          date: true,
+          permissionHours: true,
+          permissionType: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+              isPaid: true
+            }
+          },
+          employee: {
+            select: {
+              id: true,
+              identification: true,
+              firstName: true,
+              lastName: true,
+              areaId: true
+            }
+          }
+        }
+      });
+
+      const findRecordArea = await createRecordAreaLookup(records);
+
+      const byEmployee = new Map<string, {
+        employee: typeof records[number]['employee'];
+        area: ReportArea;
+        lastDate: Date;
+        byType: Map<string, PermissionTypeTotals>;
+      }>();
+      const totalsByType = new Map<string, PermissionTypeTotals>();
+      let recordsProcessed = 0;
+
+      for (const record of records) {
+        const area = findRecordArea(record);
+        if (!isInAreas(area, areaIds)) continue;
+        recordsProcessed += 1;
+
+        let employeeTotals = byEmployee.get(record.employee.id);
+        if (!employeeTotals) {
+          employeeTotals = { employee: record.employee, area, lastDate: record.date, byType: new Map() };
+          byEmployee.set(record.employee.id, employeeTotals);
+        }
+
+        // El empleado se muestra en el área de su último permiso del período
+        if (record.date >= employeeTotals.lastDate) {
+          employeeTotals.area = area;
+          employeeTotals.lastDate = record.date;
+        }
+
+        const permissionType = record.permissionType || UNTYPED_PERMISSION;
+        const hours = toNumber(record.permissionHours);
+
+        addPermissionHours(employeeTotals.byType, permissionType, hours);
+        addPermissionHours(totalsByType, permissionType, hours);
+      }
+
+      const sumHours = (byType: PermissionTypeTotals[], isPaid?: boolean) => roundMoney(byType
+        .filter(type => isPaid === undefined || type.isPaid === isPaid)
+        .reduce((sum, type) => sum + type.hours, 0));
+
+      const employees = Array.from(byEmployee.values()).map(({ employee, area, byType }) => {
+        const types = Array.from(byType.values()).sort((a, b) => b.hours - a.hours);
+
+        return {
+          employeeId: employee.id,
+          identification: employee.identification,
+          fullName: `${employee.firstName} ${employee.lastName}`,
+          area,
+          totalHours: sumHours(types),
+          paidHours: sumHours(types, true),
+          unpaidHours: sumHours(types, false),
+          byType: types
+        };
+      }).sort((a, b) =>
+        (a.area?.name || '').localeCompare(b.area?.name || '') || a.fullName.localeCompare(b.fullName)
+      );
+
+      const types = Array.from(totalsByType.values()).sort((a, b) => b.hours - a.hours);
+
+      res.json({
+        success: true,
+        data: {
+          periodStart: formatDateToString(new Date(periodStart)),
+          periodEnd: formatDateToString(new Date(periodEnd)),
+          employees,
+          totals: {
+            totalHours: sumHours(types),
+            paidHours: sumHours(types, true),
+            unpaidHours: sumHours(types, false),
+            byType: types
+          }
+        },
+        meta: {
+          totalEmployees: employees.length,
+          recordsProcessed,
+          recordsWithoutType: totalsByType.get(UNTYPED_PERMISSION.code)?.records || 0
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar reporte de permisos:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/reports/food?from=2024-12-26&to=2025-01-25&areaIds=id1,id2
+   * Costo de alimentación por área y por día con el precio vigente en cada fecha
+   * ÚTIL PARA RRHH: Revisar la factura mensual del proveedor de alimentación
+   */
+  static async getFood(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to, areaIds: requestedAreaIds } = foodReportQuerySchema.parse(req.query);
+      // Un supervisor sin filtro de área solo consulta sus áreas
+      const areaIds = requestedAreaIds || getAllowedAreaIds(req) || undefined;
+
+      // Filtro amplio por área; cada registro se atribuye al área del empleado en su fecha
+      const candidateIds = areaIds ? await findEmployeeIdsInAreas(prisma, areaIds) : undefined;
+
+      const [mealTypes, records] = await Promise.all([
+        prisma.mealType.findMany({
+          where: { effectiveFrom: { lte: new Date(to) } },
+          orderBy: { effectiveFrom: 'desc' }
+        }),
+        prisma.attendanceRecord.findMany({
+          where: {
+            date: {
+              gte: new Date(from),
+              lte: new Date(to)
+            },
+            foodAllowance: { isNot: null },
+            ...(candidateIds && { employeeId: { in: candidateIds } })
+          },
+          select: {
+            date: true,
+            employee: {
+              select: {
+                id: true,
+                areaId: true
+              }
+            },
+            foodAllowance: true
+          }
+        })
+      ]);
+
+      const findRecordArea = await createRecordAreaLookup(records);
+
+      // Historial de precios por código, del más reciente al más antiguo
+      const pricesByCode = new Map<string, MealPrice[]>();
+      mealTypes.forEach(mealType => {
+        const prices = pricesByCode.get(mealType.code) || [];
+        prices.push({
+          effectiveFrom: formatDateToString(mealType.effectiveFrom),
+          unitPrice: parseFloat(mealType.unitPrice.toString()),
+          provider: mealType.provider
+        });
+        pricesByCode.set(mealType.code, prices);
+      });
+
+      const byArea = new Map<string, {
+        areaId: string | null;
+        areaName: string;
+        days: Map<string, FoodCostTotals>;
+        totals: FoodCostTotals;
+      }>();
+      const missingPrices = new Map<FoodTypeCode, Set<string>>();
+
+      let recordsProcessed = 0;
+
+      for (const record of records) {
+        const recordArea = findRecordArea(record);
+        if (!isInAreas(recordArea, areaIds)) continue;
+        recordsProcessed += 1;
+
+        const food = record.foodAllowance!;
+        const date = formatDateToString(record.date);
+        const areaKey = recordArea?.id || 'sin-area';
+
+        let area = byArea.get(areaKey);
+        if (!area) {
+          area = {
+            areaId: recordArea?.id || null,
+            areaName: recordArea?.name || 'Sin área',
+            days: new Map(),
+            totals: emptyFoodTotals()
+          };
+          byArea.set(areaKey, area);
+        }
+
+        let day = area.days.get(date);
+        if (!day) {
+          day = emptyFoodTotals();
+          area.days.set(date, day);
+        }
+
+        const recordTotals = emptyFoodTotals();
+        FOOD_TYPE_CODES.forEach(code => {
+          const count = food[FOOD_TYPE_FIELDS[code]];
+          if (count === 0) return;
+
+          const price = findPriceOn(pricesByCode.get(code), date);
+          if (!price) {
+            const dates = missingPrices.get(code) || new Set<string>();
+            dates.add(date);
+            missingPrices.set(code, dates);
+          }
+
+          const amount = roundMoney(count * (price?.unitPrice || 0));
+          recordTotals.meals[code] = { count, amount };
+          recordTotals.mealsCost = roundMoney(recordTotals.mealsCost + amount);
+        });
+        recordTotals.transport = parseFloat(food.transport.toString());
+        recordTotals.total = roundMoney(recordTotals.mealsCost + recordTotals.transport);
+
+        addFoodTotals(day, recordTotals);
+        addFoodTotals(area.totals, recordTotals);
+      }
+
+      const totals = emptyFoodTotals();
+      const areas = Array.from(byArea.values())
+        .sort((a, b) => a.areaName.localeCompare(b.areaName))
+        .map(area => {
+          addFoodTotals(totals, area.totals);
+
+          return {
+            areaId: area.areaId,
+            areaName: area.areaName,
+            days: Array.from(area.days.entries())
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([date, dayTotals]) => ({
+                date,
+                ...dayTotals,
+                // Precio aplicado en el día para cada tipo
+                unitPrices: Object.fromEntries(FOOD_TYPE_CODES.map(code => [
+                  code,
+                  findPriceOn(pricesByCode.get(code), date)?.unitPrice ?? null
+                ]))
+              })),
+            totals: area.totals
+          };
+        });
+
+      res.json({
+        success: true,
+        data: {
+          from,
+          to,
+          mealTypes: FOOD_TYPE_CODES.map(code => ({ code, name: FOOD_TYPES[code] })),
+          areas,
+          totals,
+          ...(missingPrices.size > 0 && {
+            missingPrices: Array.from(missingPrices.entries()).map(([code, dates]) => ({
+              code,
+              dates: Array.from(dates).sort()
+            }))
+          })
+        },
+        meta: {
+          totalAreas: areas.length,
+          recordsProcessed
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al generar reporte de alimentación:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
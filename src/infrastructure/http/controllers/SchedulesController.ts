@@ -0,0 +1,567 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma, Schedule } from '@prisma/client';
+import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { getAllowedAreaIds } from '../middlewares/areaScope.middleware';
+import { formatDateToString } from '../../../shared/utils/period';
+
+// Validadores Zod
+const timeSchema = z.string()
+  .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:mm)');
+
+const dateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)');
+
+// La salida puede ser anterior a la entrada en turnos nocturnos (cruzan medianoche)
+const createScheduleSchema = z.object({
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform(val => val.trim()),
+  entryTime: timeSchema,
+  exitTime: timeSchema,
+  lunchDuration: z.number().int().min(0).max(180).default(30),
+  workingHours: z.number().int().min(1).max(12).default(8),
+  description: z.string()
+    .max(500, 'La descripción no puede exceder 500 caracteres')
+    .optional(),
+  isActive: z.boolean().default(true)
+}).refine(data => data.entryTime !== data.exitTime, {
+  message: 'La hora de entrada y salida no pueden ser iguales',
+  path: ['exitTime']
+});
+
+const updateScheduleSchema = z.object({
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform(val => val.trim())
+    .optional(),
+  entryTime: timeSchema.optional(),
+  exitTime: timeSchema.optional(),
+  lunchDuration: z.number().int().min(0).max(180).optional(),
+  workingHours: z.number().int().min(1).max(12).optional(),
+  description: z.string()
+    .max(500, 'La descripción no puede exceder 500 caracteres')
+    .nullable()
+    .optional(),
+  isActive: z.boolean().optional()
+});
+
+const createAssignmentSchema = z.object({
+  scheduleId: z.string().uuid('ID de turno inválido'),
+  // Se puede asignar el mismo turno a una cuadrilla completa (ej. riego nocturno)
+  employeeIds: z.array(z.string().uuid('ID de empleado inválido'))
+    .min(1, 'Debe incluir al menos un empleado')
+    .max(200, 'No puede asignar más de 200 empleados a la vez'),
+  startDate: dateSchema,
+  endDate: dateSchema.optional(),
+  notes: z.string()
+    .max(500, 'Las notas no pueden exceder 500 caracteres')
+    .optional()
+}).refine(data => !data.endDate || data.startDate <= data.endDate, {
+  message: 'La fecha de inicio debe ser anterior o igual a la fecha de fin',
+  path: ['endDate']
+});
+
+const assignmentsQuerySchema = z.object({
+  employeeId: z.string()
+    .uuid('ID de empleado inválido')
+    .optional(),
+  areaId: z.string()
+    .uuid('ID de área inválido')
+    .optional(),
+  scheduleId: z.string()
+    .uuid('ID de turno inválido')
+    .optional(),
+  // Solo asignaciones vigentes en esta fecha
+  date: dateSchema.optional()
+});
+
+// Helper functions
+function createTimeDate(timeString: string): Date {
+  return new Date(`1970-01-01T${timeString}:00.000Z`);
+}
+
+function formatTimeToString(date: Date): string {
+  return date.toISOString().substr(11, 5);
+}
+
+function formatSchedule(schedule: Schedule & { _count?: { assignments: number } }) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    entryTime: formatTimeToString(schedule.entryTime),
+    exitTime: formatTimeToString(schedule.exitTime),
+    lunchDuration: schedule.lunchDuration,
+    workingHours: schedule.workingHours,
+    crossesMidnight: schedule.exitTime < schedule.entryTime,
+    description: schedule.description,
+    isActive: schedule.isActive,
+    ...(schedule._count && { assignmentsCount: schedule._count.assignments }),
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt
+  };
+}
+
+const assignmentInclude = {
+  employee: {
+    select: {
+      id: true,
+      identification: true,
+      firstName: true,
+      lastName: true,
+      area: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  },
+  schedule: true
+} satisfies Prisma.ShiftAssignmentInclude;
+
+type AssignmentWithRelations = Prisma.ShiftAssignmentGetPayload<{ include: typeof assignmentInclude }>;
+
+function formatAssignment(assignment: AssignmentWithRelations) {
+  return {
+    id: assignment.id,
+    employeeId: assignment.employeeId,
+    employee: {
+      identification: assignment.employee.identification,
+      fullName: `${assignment.employee.firstName} ${assignment.employee.lastName}`,
+      area: assignment.employee.area
+    },
+    schedule: formatSchedule(assignment.schedule),
+    startDate: formatDateToString(assignment.startDate),
+    endDate: assignment.endDate ? formatDateToString(assignment.endDate) : null,
+    notes: assignment.notes,
+    assignedBy: assignment.assignedBy,
+    createdAt: assignment.createdAt
+  };
+}
+
+export class SchedulesController {
+
+  /**
+   * GET /api/schedules
+   * Listar los turnos con nombre (riego nocturno, postcosecha, etc.)
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const includeInactive = req.query.includeInactive === 'true';
+
+      const schedules = await prisma.schedule.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: {
+          _count: {
+            select: { assignments: true }
+          }
+        },
+        orderBy: { name: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        data: schedules.map(formatSchedule),
+        meta: {
+          total: schedules.length
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al obtener turnos:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/schedules
+   * Crear un turno (solo ADMIN)
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createScheduleSchema.parse(req.body);
+
+      const existingSchedule = await prisma.schedule.findUnique({
+        where: { name: validatedData.name }
+      });
+
+      if (existingSchedule) {
+        res.status(409).json({
+          success: false,
+          message: 'Ya existe un turno con este nombre'
+        });
+        return;
+      }
+
+      const schedule = await prisma.schedule.create({
+        data: {
+          ...validatedData,
+          entryTime: createTimeDate(validatedData.entryTime),
+          exitTime: createTimeDate(validatedData.exitTime),
+          description: validatedData.description || null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Turno creado exitosamente',
+        data: formatSchedule(schedule)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al crear turno:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/schedules/:id
+   * Actualizar un turno (solo ADMIN)
+   * Los registros ya guardados conservan sus horas; los cambios aplican a nuevas plantillas
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const validatedData = updateScheduleSchema.parse(req.body);
+
+      const existingSchedule = await prisma.schedule.findUnique({
+        where: { id }
+      });
+
+      if (!existingSchedule) {
+        res.status(404).json({
+          success: false,
+          message: 'Turno no encontrado'
+        });
+        return;
+      }
+
+      if (validatedData.name && validatedData.name !== existingSchedule.name) {
+        const duplicateSchedule = await prisma.schedule.findUnique({
+          where: { name: validatedData.name }
+        });
+
+        if (duplicateSchedule) {
+          res.status(409).json({
+            success: false,
+            message: 'Ya existe un turno con este nombre'
+          });
+          return;
+        }
+      }
+
+      const entryTime = validatedData.entryTime || formatTimeToString(existingSchedule.entryTime);
+      const exitTime = validatedData.exitTime || formatTimeToString(existingSchedule.exitTime);
+
+      if (entryTime === exitTime) {
+        res.status(400).json({
+          success: false,
+          message: 'La hora de entrada y salida no pueden ser iguales'
+        });
+        return;
+      }
+
+      const updatedSchedule = await prisma.schedule.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          entryTime: createTimeDate(entryTime),
+          exitTime: createTimeDate(exitTime)
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Turno actualizado exitosamente',
+        data: formatSchedule(updatedSchedule)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar turno:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/schedules/:id
+   * Eliminar un turno sin asignaciones (solo ADMIN)
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const schedule = await prisma.schedule.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { assignments: true }
+          }
+        }
+      });
+
+      if (!schedule) {
+        res.status(404).json({
+          success: false,
+          message: 'Turno no encontrado'
+        });
+        return;
+      }
+
+      if (schedule._count.assignments > 0) {
+        res.status(409).json({
+          success: false,
+          message: `El turno tiene ${schedule._count.assignments} asignaciones. Desactívelo con isActive: false`
+        });
+        return;
+      }
+
+      await prisma.schedule.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Turno eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar turno:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/schedules/assignments?employeeId=&areaId=&scheduleId=&date=
+   * Listar asignaciones de turnos por empleado, área, turno o fecha
+   */
+  static async getAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, areaId, scheduleId, date } = assignmentsQuerySchema.parse(req.query);
+      // Un supervisor sin filtro de área solo ve las asignaciones de su personal
+      const allowedAreaIds = getAllowedAreaIds(req);
+
+      const assignments = await prisma.shiftAssignment.findMany({
+        where: {
+          ...(employeeId && { employeeId }),
+          ...(areaId && { employee: { areaId } }),
+          ...(!areaId && allowedAreaIds && { employee: { areaId: { in: allowedAreaIds } } }),
+          ...(scheduleId && { scheduleId }),
+          ...(date && {
+            startDate: { lte: new Date(date) },
+            OR: [
+              { endDate: null },
+              { endDate: { gte: new Date(date) } }
+            ]
+          })
+        },
+        include: assignmentInclude,
+        orderBy: [
+          { startDate: 'desc' },
+          { createdAt: 'desc' }
+        ]
+      });
+
+      res.json({
+        success: true,
+        data: assignments.map(formatAssignment),
+        meta: {
+          total: assignments.length,
+          date: date || null
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener asignaciones de turnos:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/schedules/assignments
+   * Asignar un turno a uno o varios empleados por un rango de fechas (ADMIN/EDITOR)
+   * ÚTIL PARA SUPERVISORES: Rotar la cuadrilla de riego nocturno por semanas
+   */
+  static async createAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createAssignmentSchema.parse(req.body);
+      const employeeIds = Array.from(new Set(validatedData.employeeIds));
+      const startDate = new Date(validatedData.startDate);
+      const endDate = validatedData.endDate ? new Date(validatedData.endDate) : null;
+
+      const [schedule, employees] = await Promise.all([
+        prisma.schedule.findUnique({
+          where: { id: validatedData.scheduleId }
+        }),
+        prisma.employee.findMany({
+          where: { id: { in: employeeIds }, isActive: true },
+          select: { id: true }
+        })
+      ]);
+
+      if (!schedule || !schedule.isActive) {
+        res.status(404).json({
+          success: false,
+          message: 'Turno no encontrado o inactivo'
+        });
+        return;
+      }
+
+      if (employees.length !== employeeIds.length) {
+        const foundIds = employees.map(emp => emp.id);
+        res.status(404).json({
+          success: false,
+          message: `Empleados no encontrados o inactivos: ${employeeIds.filter(id => !foundIds.includes(id)).join(', ')}`
+        });
+        return;
+      }
+
+      // Un empleado no puede tener dos turnos asignados el mismo día
+      const overlappingAssignments = await prisma.shiftAssignment.findMany({
+        where: {
+          employeeId: { in: employeeIds },
+          ...(endDate && { startDate: { lte: endDate } }),
+          OR: [
+            { endDate: null },
+            { endDate: { gte: startDate } }
+          ]
+        },
+        include: assignmentInclude
+      });
+
+      if (overlappingAssignments.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: `${overlappingAssignments.length} empleado(s) ya tienen un turno asignado en ese rango`,
+          data: overlappingAssignments.map(formatAssignment)
+        });
+        return;
+      }
+
+      const assignedBy = getCurrentUser(req)?.id || null;
+
+      const assignments = await prisma.$transaction(async (tx) => {
+        const created = [];
+        for (const employeeId of employeeIds) {
+          created.push(await tx.shiftAssignment.create({
+            data: {
+              employeeId,
+              scheduleId: schedule.id,
+              startDate,
+              endDate,
+              notes: validatedData.notes || null,
+              assignedBy
+            },
+            include: assignmentInclude
+          }));
+        }
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Turno ${schedule.name} asignado a ${assignments.length} empleado(s)`,
+        data: assignments.map(formatAssignment)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al asignar turno:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/schedules/assignments/:id
+   * Eliminar una asignación de turno (ADMIN/EDITOR)
+   */
+  static async deleteAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const assignment = await prisma.shiftAssignment.findUnique({
+        where: { id }
+      });
+
+      if (!assignment) {
+        res.status(404).json({
+          success: false,
+          message: 'Asignación de turno no encontrada'
+        });
+        return;
+      }
+
+      await prisma.shiftAssignment.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Asignación de turno eliminada exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error al eliminar asignación de turno:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -0,0 +1,609 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { registerSchema } from '../validators/auth.validators';
+import { revokeAllSessions } from '../../database/sessions';
+import { resetFailedLogins } from '../../database/loginProtection';
+import { setUserPassword } from '../../database/passwordHistory';
+import { generateTemporaryPassword, isPasswordExpired } from '../../../shared/utils/passwords';
+
+const ROLES = ['ADMIN', 'EDITOR', 'VIEWER'] as const;
+
+// Validadores Zod
+const createUserSchema = z.object({
+  email: registerSchema.shape.email,
+  employeeId: registerSchema.shape.employeeId,
+  role: z.enum(ROLES).default('VIEWER'),
+  // Sin contraseña se genera una temporal que debe cambiarse en el primer ingreso
+  password: registerSchema.shape.password.optional()
+});
+
+const updateRoleSchema = z.object({
+  role: z.enum(ROLES)
+});
+
+const updateAreaAccessSchema = z.object({
+  allAreas: z.boolean()
+});
+
+const usersQuerySchema = z.object({
+  role: z.enum(ROLES).optional(),
+  isActive: z.enum(['true', 'false'])
+    .optional()
+    .transform(val => val === undefined ? undefined : val === 'true'),
+  search: z.string().optional()
+});
+
+const loginAttemptsQuerySchema = z.object({
+  success: z.enum(['true', 'false'])
+    .optional()
+    .transform(val => val === undefined ? undefined : val === 'true'),
+  limit: z.string()
+    .optional()
+    .transform(val => val ? Math.min(parseInt(val), 200) : 50)
+});
+
+const USER_INCLUDE = {
+  employee: {
+    select: {
+      id: true,
+      identification: true,
+      firstName: true,
+      lastName: true,
+      isActive: true,
+      area: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  },
+  areaAssignments: {
+    select: { areaId: true }
+  }
+} satisfies Prisma.UserInclude;
+
+type UserWithEmployee = Prisma.UserGetPayload<{ include: typeof USER_INCLUDE }>;
+
+function formatUser(user: UserWithEmployee) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    isActive: user.isActive,
+    mustChangePassword: user.mustChangePassword,
+    passwordChangedAt: user.passwordChangedAt,
+    passwordExpired: isPasswordExpired(user.passwordChangedAt),
+    failedLoginAttempts: user.failedLoginAttempts,
+    lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null,
+    allAreas: user.allAreas,
+    employee: {
+      id: user.employee.id,
+      identification: user.employee.identification,
+      fullName: `${user.employee.firstName} ${user.employee.lastName}`,
+      isActive: user.employee.isActive,
+      area: user.employee.area
+    },
+    supervisedAreaIds: user.areaAssignments.map(assignment => assignment.areaId),
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+}
+
+/**
+ * Evitar que el sistema quede sin ningún ADMIN activo
+ */
+async function isLastActiveAdmin(userId: string): Promise<boolean> {
+  const activeAdmins = await prisma.user.findMany({
+    where: { role: 'ADMIN', isActive: true },
+    select: { id: true }
+  });
+
+  return activeAdmins.length === 1 && activeAdmins[0].id === userId;
+}
+
+export class UsersController {
+
+  /**
+   * GET /api/users?role=EDITOR&isActive=true&search=maria
+   * Listar usuarios del sistema (solo ADMIN)
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const query = usersQuerySchema.parse(req.query);
+
+      const users = await prisma.user.findMany({
+        where: {
+          ...(query.role && { role: query.role }),
+          ...(query.isActive !== undefined && { isActive: query.isActive }),
+          ...(query.search && {
+            OR: [
+              { email: { contains: query.search, mode: 'insensitive' } },
+              { employee: { firstName: { contains: query.search, mode: 'insensitive' } } },
+              { employee: { lastName: { contains: query.search, mode: 'insensitive' } } },
+              { employee: { identification: { contains: query.search } } }
+            ]
+          })
+        },
+        include: USER_INCLUDE,
+        orderBy: { email: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        data: users.map(formatUser),
+        meta: {
+          total: users.length,
+          byRole: ROLES.reduce((acc, role) => ({
+            ...acc,
+            [role]: users.filter(user => user.role === role).length
+          }), {} as Record<Role, number>)
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener usuarios:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/users
+   * Crear el acceso de un empleado con el rol indicado (solo ADMIN)
+   * Sin contraseña se devuelve una temporal, visible solo en esta respuesta
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createUserSchema.parse(req.body);
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: validatedData.email }
+      });
+
+      if (existingUser) {
+        res.status(409).json({
+          success: false,
+          message: 'El email ya está registrado'
+        });
+        return;
+      }
+
+      const employee = await prisma.employee.findUnique({
+        where: { id: validatedData.employeeId },
+        include: { user: { select: { id: true } } }
+      });
+
+      if (!employee) {
+        res.status(404).json({
+          success: false,
+          message: 'Empleado no encontrado'
+        });
+        return;
+      }
+
+      if (employee.user) {
+        res.status(409).json({
+          success: false,
+          message: 'El empleado ya tiene un usuario asignado'
+        });
+        return;
+      }
+
+      const temporaryPassword = validatedData.password ? null : generateTemporaryPassword();
+      const passwordHash = await bcrypt.hash(validatedData.password || temporaryPassword!, 10);
+
+      const user = await prisma.user.create({
+        data: {
+          email: validatedData.email,
+          employeeId: validatedData.employeeId,
+          role: validatedData.role,
+          password: passwordHash,
+          mustChangePassword: !!temporaryPassword,
+          passwordHistory: {
+            create: { passwordHash }
+          }
+        },
+        include: USER_INCLUDE
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Usuario creado exitosamente',
+        data: {
+          ...formatUser(user),
+          ...(temporaryPassword && { temporaryPassword })
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al crear usuario:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/users/:id/role
+   * Cambiar el rol de un usuario (solo ADMIN)
+   */
+  static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { role } = updateRoleSchema.parse(req.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      if (user.role === 'ADMIN' && role !== 'ADMIN' && user.isActive && await isLastActiveAdmin(id)) {
+        res.status(409).json({
+          success: false,
+          message: 'No se puede quitar el rol al último ADMIN activo'
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id },
+        data: { role },
+        include: USER_INCLUDE
+      });
+
+      res.json({
+        success: true,
+        message: `Rol actualizado a ${role}`,
+        data: formatUser(updatedUser)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar rol:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/users/:id/area-access
+   * Dar o quitar el acceso a todas las áreas (solo ADMIN)
+   * Sin este acceso, un usuario que no es ADMIN solo trabaja con las áreas que supervisa
+   */
+  static async updateAreaAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { allAreas } = updateAreaAccessSchema.parse(req.body);
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id },
+        data: { allAreas },
+        include: USER_INCLUDE
+      });
+
+      res.json({
+        success: true,
+        message: allAreas
+          ? 'El usuario ahora tiene acceso a todas las áreas'
+          : 'El usuario ahora solo accede a las áreas que supervisa',
+        data: formatUser(updatedUser)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al actualizar acceso por área:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/users/:id/activate
+   * Reactivar el acceso de un usuario (solo ADMIN)
+   */
+  static async activate(req: Request, res: Response): Promise<void> {
+    await UsersController.setActive(req, res, true);
+  }
+
+  /**
+   * POST /api/users/:id/deactivate
+   * Desactivar el acceso sin desactivar al empleado (solo ADMIN)
+   * Cierra todas las sesiones abiertas del usuario
+   */
+  static async deactivate(req: Request, res: Response): Promise<void> {
+    await UsersController.setActive(req, res, false);
+  }
+
+  /**
+   * POST /api/users/:id/reset-password
+   * Asignar una contraseña temporal de un solo uso (solo ADMIN)
+   * ÚTIL PARA RRHH: Atender olvidos de contraseña sin acceso al correo
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      // La temporal cumple la política vigente y queda en el historial
+      const temporaryPassword = generateTemporaryPassword();
+
+      await prisma.$transaction(tx =>
+        setUserPassword(tx, id, temporaryPassword, { mustChangePassword: true })
+      );
+
+      // La contraseña anterior deja de servir también en las sesiones abiertas
+      const revokedSessions = await revokeAllSessions(prisma, id);
+
+      res.json({
+        success: true,
+        message: 'Contraseña temporal generada; el usuario deberá cambiarla al ingresar',
+        data: {
+          userId: user.id,
+          email: user.email,
+          temporaryPassword,
+          revokedSessions
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al restablecer contraseña:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/users/:id/unlock
+   * Desbloquear una cuenta bloqueada por intentos fallidos (solo ADMIN)
+   */
+  static async unlock(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      const wasLocked = !!user.lockedUntil && user.lockedUntil > new Date();
+      await resetFailedLogins(prisma, id);
+
+      res.json({
+        success: true,
+        message: wasLocked ? 'Cuenta desbloqueada exitosamente' : 'La cuenta no estaba bloqueada; se reiniciaron los intentos fallidos',
+        data: {
+          userId: user.id,
+          email: user.email,
+          wasLocked,
+          previousFailedAttempts: user.failedLoginAttempts
+        }
+      });
+
+    } catch (error) {
+      console.error('Error al desbloquear usuario:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/users/:id/login-attempts?success=false&limit=50
+   * Historial de intentos de login de un usuario, más recientes primero (solo ADMIN)
+   */
+  static async getLoginAttempts(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const query = loginAttemptsQuerySchema.parse(req.query);
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, email: true }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      const attempts = await prisma.loginAttempt.findMany({
+        where: {
+          userId: id,
+          ...(query.success !== undefined && { success: query.success })
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit
+      });
+
+      res.json({
+        success: true,
+        data: attempts.map(attempt => ({
+          id: attempt.id,
+          success: attempt.success,
+          failureReason: attempt.failureReason,
+          ipAddress: attempt.ipAddress,
+          userAgent: attempt.userAgent,
+          createdAt: attempt.createdAt
+        })),
+        meta: {
+          userId: user.id,
+          email: user.email,
+          returned: attempts.length,
+          limit: query.limit
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener intentos de login:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  private static async setActive(req: Request, res: Response, isActive: boolean): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Usuario no encontrado'
+        });
+        return;
+      }
+
+      if (user.isActive === isActive) {
+        res.status(400).json({
+          success: false,
+          message: isActive ? 'El usuario ya está activo' : 'El usuario ya está inactivo'
+        });
+        return;
+      }
+
+      if (!isActive) {
+        if (getCurrentUser(req)?.id === id) {
+          res.status(400).json({
+            success: false,
+            message: 'No puede desactivar su propio usuario'
+          });
+          return;
+        }
+
+        if (user.role === 'ADMIN' && await isLastActiveAdmin(id)) {
+          res.status(409).json({
+            success: false,
+            message: 'No se puede desactivar al último ADMIN activo'
+          });
+          return;
+        }
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id },
+        data: { isActive },
+        include: USER_INCLUDE
+      });
+
+      const revokedSessions = isActive ? 0 : await revokeAllSessions(prisma, id);
+
+      res.json({
+        success: true,
+        message: isActive ? 'Usuario activado exitosamente' : 'Usuario desactivado exitosamente',
+        data: formatUser(updatedUser),
+        ...(!isActive && { meta: { revokedSessions } })
+      });
+
+    } catch (error) {
+      console.error(`Error al ${isActive ? 'activar' : 'desactivar'} usuario:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
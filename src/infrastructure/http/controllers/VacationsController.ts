@@ -0,0 +1,464 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma, VacationRequest } from '@prisma/client';
+import { prisma } from '../../../server';
+import { getCurrentUser } from '../middlewares/auth.middleware';
+import { formatDateToString } from '../../../shared/utils/period';
+import { calculateAccruedVacationDays, countCalendarDays, listDates } from '../../../shared/utils/vacations';
+
+// Validadores Zod
+const createVacationSchema = z.object({
+  // Obligatorio para ADMIN/EDITOR; un VIEWER solo puede solicitar para sí mismo
+  employeeId: z.string()
+    .uuid('ID de empleado inválido')
+    .optional(),
+  startDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  endDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+  reason: z.string()
+    .max(500, 'El motivo no puede exceder 500 caracteres')
+    .optional()
+}).refine(data => data.startDate <= data.endDate, {
+  message: 'La fecha de inicio debe ser anterior o igual a la fecha de fin',
+  path: ['endDate']
+});
+
+const reviewVacationSchema = z.object({
+  comment: z.string()
+    .max(500, 'El comentario no puede exceder 500 caracteres')
+    .optional()
+});
+
+const vacationsQuerySchema = z.object({
+  employeeId: z.string()
+    .uuid('ID de empleado inválido')
+    .optional(),
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED'])
+    .optional(),
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional(),
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)')
+    .optional()
+});
+
+type VacationRequestWithEmployee = VacationRequest & {
+  employee: { identification: string; firstName: string; lastName: string };
+};
+
+function formatVacationRequest(request: VacationRequestWithEmployee) {
+  return {
+    id: request.id,
+    employeeId: request.employeeId,
+    employee: {
+      identification: request.employee.identification,
+      fullName: `${request.employee.firstName} ${request.employee.lastName}`
+    },
+    startDate: formatDateToString(request.startDate),
+    endDate: formatDateToString(request.endDate),
+    days: request.days,
+    status: request.status,
+    reason: request.reason,
+    requestedBy: request.requestedBy,
+    approvedBy: request.approvedBy,
+    reviewedAt: request.reviewedAt,
+    reviewComment: request.reviewComment,
+    createdAt: request.createdAt,
+    updatedAt: request.updatedAt
+  };
+}
+
+const EMPLOYEE_SUMMARY_SELECT = {
+  select: {
+    identification: true,
+    firstName: true,
+    lastName: true
+  }
+};
+
+/**
+ * Un VIEWER solo puede operar sobre su propio empleado.
+ * Devuelve el employeeId permitido o un mensaje de error.
+ */
+function resolveEmployeeScope(req: Request, requestedEmployeeId?: string): { employeeId?: string; error?: string } {
+  const user = getCurrentUser(req);
+
+  if (user?.role !== 'VIEWER') {
+    return { employeeId: requestedEmployeeId };
+  }
+
+  if (!user.employeeId) {
+    return { error: 'El usuario no está vinculado a un empleado' };
+  }
+
+  if (requestedEmployeeId && requestedEmployeeId !== user.employeeId) {
+    return { error: 'Solo puede consultar o solicitar sus propias vacaciones' };
+  }
+
+  return { employeeId: user.employeeId };
+}
+
+/**
+ * Saldo de vacaciones de un empleado a una fecha:
+ * - accrued: días acumulados desde la fecha de ingreso (o la fecha de creación si no se registró)
+ * - taken: días registrados como vacaciones en asistencia
+ * - scheduled: días aprobados que aún no tienen registro de vacaciones
+ * - pending: días en solicitudes pendientes de aprobación
+ */
+async function getVacationBalance(employeeId: string, asOf: Date) {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { id: true, hireDate: true, createdAt: true }
+  });
+
+  if (!employee) {
+    return null;
+  }
+
+  const [vacationRecords, requests] = await Promise.all([
+    prisma.attendanceRecord.findMany({
+      where: { employeeId, isVacation: true },
+      select: { date: true }
+    }),
+    prisma.vacationRequest.findMany({
+      where: { employeeId, status: { in: ['PENDING', 'APPROVED'] } },
+      select: { id: true, startDate: true, endDate: true, days: true, status: true }
+    })
+  ]);
+
+  const takenDates = new Set(vacationRecords.map(record => formatDateToString(record.date)));
+
+  const scheduled = requests
+    .filter(request => request.status === 'APPROVED')
+    .reduce((sum, request) =>
+      sum + listDates(request.startDate, request.endDate)
+        .filter(date => !takenDates.has(formatDateToString(date))).length,
+    0);
+
+  const pending = requests
+    .filter(request => request.status === 'PENDING')
+    .reduce((sum, request) => sum + request.days, 0);
+
+  const accrued = calculateAccruedVacationDays(employee.hireDate || employee.createdAt, asOf);
+  const taken = takenDates.size;
+
+  return {
+    employeeId,
+    hireDate: employee.hireDate ? formatDateToString(employee.hireDate) : null,
+    asOf: formatDateToString(asOf),
+    accrued,
+    taken,
+    scheduled,
+    pending,
+    available: Math.round((accrued - taken - scheduled - pending) * 100) / 100
+  };
+}
+
+export class VacationsController {
+
+  /**
+   * GET /api/vacations
+   * Listar solicitudes de vacaciones con filtros (un VIEWER solo ve las suyas)
+   */
+  static async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const query = vacationsQuerySchema.parse(req.query);
+      const scope = resolveEmployeeScope(req, query.employeeId);
+
+      if (scope.error) {
+        res.status(403).json({
+          success: false,
+          message: scope.error
+        });
+        return;
+      }
+
+      const where: Prisma.VacationRequestWhereInput = {
+        ...(scope.employeeId && { employeeId: scope.employeeId }),
+        ...(query.status && { status: query.status }),
+        // Solicitudes que se cruzan con el rango consultado
+        ...(query.from && { endDate: { gte: new Date(query.from) } }),
+        ...(query.to && { startDate: { lte: new Date(query.to) } })
+      };
+
+      const requests = await prisma.vacationRequest.findMany({
+        where,
+        include: { employee: EMPLOYEE_SUMMARY_SELECT },
+        orderBy: [
+          { startDate: 'desc' },
+          { createdAt: 'desc' }
+        ]
+      });
+
+      res.json({
+        success: true,
+        data: requests.map(formatVacationRequest),
+        meta: {
+          total: requests.length,
+          pending: requests.filter(request => request.status === 'PENDING').length
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Parámetros de consulta inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al obtener solicitudes de vacaciones:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * GET /api/vacations/balance/:employeeId
+   * Saldo de vacaciones: acumulado, tomado, programado, pendiente y disponible
+   * ÚTIL PARA RRHH: Antes de aprobar una solicitud
+   */
+  static async getBalance(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId } = req.params;
+      const scope = resolveEmployeeScope(req, employeeId);
+
+      if (scope.error) {
+        res.status(403).json({
+          success: false,
+          message: scope.error
+        });
+        return;
+      }
+
+      const balance = await getVacationBalance(employeeId, new Date(formatDateToString(new Date())));
+
+      if (!balance) {
+        res.status(404).json({
+          success: false,
+          message: 'Empleado no encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: balance
+      });
+
+    } catch (error) {
+      console.error('Error al obtener saldo de vacaciones:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/vacations
+   * Solicitar vacaciones (un VIEWER solo para sí mismo)
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validatedData = createVacationSchema.parse(req.body);
+      const scope = resolveEmployeeScope(req, validatedData.employeeId);
+
+      if (scope.error) {
+        res.status(403).json({
+          success: false,
+          message: scope.error
+        });
+        return;
+      }
+
+      if (!scope.employeeId) {
+        res.status(400).json({
+          success: false,
+          message: 'Debe indicar el empleado que solicita las vacaciones'
+        });
+        return;
+      }
+
+      const employee = await prisma.employee.findUnique({
+        where: { id: scope.employeeId },
+        select: { id: true, isActive: true }
+      });
+
+      if (!employee || !employee.isActive) {
+        res.status(404).json({
+          success: false,
+          message: 'Empleado no encontrado o inactivo'
+        });
+        return;
+      }
+
+      const startDate = new Date(validatedData.startDate);
+      const endDate = new Date(validatedData.endDate);
+      const days = countCalendarDays(startDate, endDate);
+
+      // No se permiten solicitudes que se crucen con otras pendientes o aprobadas
+      const overlappingRequest = await prisma.vacationRequest.findFirst({
+        where: {
+          employeeId: employee.id,
+          status: { in: ['PENDING', 'APPROVED'] },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate }
+        }
+      });
+
+      if (overlappingRequest) {
+        res.status(409).json({
+          success: false,
+          message: `Ya existe una solicitud ${overlappingRequest.status === 'PENDING' ? 'pendiente' : 'aprobada'} del ${formatDateToString(overlappingRequest.startDate)} al ${formatDateToString(overlappingRequest.endDate)}`
+        });
+        return;
+      }
+
+      const balance = await getVacationBalance(employee.id, endDate);
+
+      if (balance && days > balance.available) {
+        res.status(400).json({
+          success: false,
+          message: `Saldo insuficiente: se solicitan ${days} días y hay ${balance.available} disponibles`,
+          data: balance
+        });
+        return;
+      }
+
+      const request = await prisma.vacationRequest.create({
+        data: {
+          employeeId: employee.id,
+          startDate,
+          endDate,
+          days,
+          reason: validatedData.reason || null,
+          requestedBy: getCurrentUser(req)?.id || null
+        },
+        include: { employee: EMPLOYEE_SUMMARY_SELECT }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Solicitud de vacaciones registrada exitosamente',
+        data: formatVacationRequest(request)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al solicitar vacaciones:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+
+  /**
+   * POST /api/vacations/:id/approve
+   * Aprobar una solicitud pendiente (ADMIN/EDITOR)
+   */
+  static async approve(req: Request, res: Response): Promise<void> {
+    await VacationsController.review(req, res, 'APPROVED');
+  }
+
+  /**
+   * POST /api/vacations/:id/reject
+   * Rechazar una solicitud pendiente (ADMIN/EDITOR)
+   */
+  static async reject(req: Request, res: Response): Promise<void> {
+    await VacationsController.review(req, res, 'REJECTED');
+  }
+
+  private static async review(req: Request, res: Response, status: 'APPROVED' | 'REJECTED'): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { comment } = reviewVacationSchema.parse(req.body || {});
+
+      const request = await prisma.vacationRequest.findUnique({
+        where: { id }
+      });
+
+      if (!request) {
+        res.status(404).json({
+          success: false,
+          message: 'Solicitud de vacaciones no encontrada'
+        });
+        return;
+      }
+
+      if (request.status !== 'PENDING') {
+        res.status(409).json({
+          success: false,
+          message: `La solicitud ya fue ${request.status === 'APPROVED' ? 'aprobada' : 'rechazada'}`
+        });
+        return;
+      }
+
+      if (status === 'APPROVED') {
+        // La propia solicitud está contada como pendiente dentro del saldo
+        const balance = await getVacationBalance(request.employeeId, request.endDate);
+
+        const availableDays = balance ? balance.available + request.days : 0;
+
+        if (balance && request.days > availableDays) {
+          res.status(400).json({
+            success: false,
+            message: `Saldo insuficiente: se solicitan ${request.days} días y hay ${availableDays} disponibles`,
+            data: balance
+          });
+          return;
+        }
+      }
+
+      const updatedRequest = await prisma.vacationRequest.update({
+        where: { id },
+        data: {
+          status,
+          approvedBy: getCurrentUser(req)?.id || null,
+          reviewedAt: new Date(),
+          reviewComment: comment || null
+        },
+        include: { employee: EMPLOYEE_SUMMARY_SELECT }
+      });
+
+      res.json({
+        success: true,
+        message: status === 'APPROVED'
+          ? 'Solicitud de vacaciones aprobada exitosamente'
+          : 'Solicitud de vacaciones rechazada',
+        data: formatVacationRequest(updatedRequest)
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Datos de entrada inválidos',
+          errors: error.errors
+        });
+        return;
+      }
+
+      console.error('Error al revisar solicitud de vacaciones:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor'
+      });
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../../../server';
+import { getCurrentUser } from './auth.middleware';
+
+// Interface para request con las áreas permitidas al usuario
+interface AreaScopedRequest extends Request {
+  // null: sin restricción por área (ADMIN o usuario con allAreas); [] sin ninguna área
+  allowedAreaIds?: string[] | null;
+}
+
+// Obtiene de la petición las áreas que se van a consultar o modificar;
+// null es un empleado sin área, que solo pueden tocar los usuarios sin restricción
+type AreaIdsResolver = (req: Request) => Promise<(string | null)[]> | (string | null)[];
+
+function splitIds(value: unknown): string[] {
+  return typeof value === 'string' && value.length > 0
+    ? value.split(',').map(id => id.trim()).filter(Boolean)
+    : [];
+}
+
+/**
+ * Áreas que supervisa el usuario. ADMIN y los usuarios con allAreas no tienen restricción;
+ * el resto sin asignaciones no accede a ninguna área.
+ */
+async function loadAllowedAreaIds(userId: string, role: string): Promise<string[] | null> {
+  if (role === 'ADMIN') {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      allAreas: true,
+      areaAssignments: { select: { areaId: true } }
+    }
+  });
+
+  if (user?.allAreas) {
+    return null;
+  }
+
+  return user ? user.areaAssignments.map(assignment => assignment.areaId) : [];
+}
+
+// Área de cada empleado (null si no tiene área asignada)
+async function findEmployeeAreaIds(employeeIds: string[]): Promise<(string | null)[]> {
+  if (employeeIds.length === 0) {
+    return [];
+  }
+
+  const employees = await prisma.employee.findMany({
+    where: { id: { in: employeeIds } },
+    select: { areaId: true }
+  });
+
+  return employees.map(employee => employee.areaId);
+}
+
+// ====================================================================
+// RESOLVEDORES DE ÁREAS
+// ====================================================================
+
+// ?areaIds=id1,id2 o ?areaId=id
+export const fromQueryAreaIds: AreaIdsResolver = req => [
+  ...splitIds(req.query.areaIds),
+  ...splitIds(req.query.areaId)
+];
+
+// { areaId } en el cuerpo (alta o cambio de área de un empleado)
+export const fromBodyAreaId: AreaIdsResolver = req =>
+  typeof req.body?.areaId === 'string' ? [req.body.areaId] : [];
+
+// { records: [{ employeeId }] } en el cuerpo (registro masivo)
+export const fromBodyRecordEmployees: AreaIdsResolver = req => {
+  const records: unknown[] = Array.isArray(req.body?.records) ? req.body.records : [];
+  const employeeIds = records
+    .map(record => (record as { employeeId?: unknown })?.employeeId)
+    .filter((employeeId): employeeId is string => typeof employeeId === 'string');
+
+  return findEmployeeAreaIds(Array.from(new Set(employeeIds)));
+};
+
+// { employeeIds: [] } en el cuerpo (asignación de turnos a una cuadrilla)
+export const fromBodyEmployeeIds: AreaIdsResolver = req => {
+  const employeeIds: unknown[] = Array.isArray(req.body?.employeeIds) ? req.body.employeeIds : [];
+
+  return findEmployeeAreaIds(Array.from(new Set(
+    employeeIds.filter((employeeId): employeeId is string => typeof employeeId === 'string')
+  )));
+};
+
+// /:id de un empleado
+export const fromEmployeeParam: AreaIdsResolver = req => findEmployeeAreaIds([req.params.id]);
+
+// /:id de un registro de asistencia (área del empleado registrado)
+export const fromAttendanceParam: AreaIdsResolver = async req => {
+  const record = await prisma.attendanceRecord.findUnique({
+    where: { id: req.params.id },
+    select: { employeeId: true }
+  });
+
+  return record ? findEmployeeAreaIds([record.employeeId]) : [];
+};
+
+// /:id de una solicitud de vacaciones (área del empleado solicitante)
+export const fromVacationParam: AreaIdsResolver = async req => {
+  const request = await prisma.vacationRequest.findUnique({
+    where: { id: req.params.id },
+    select: { employeeId: true }
+  });
+
+  return request ? findEmployeeAreaIds([request.employeeId]) : [];
+};
+
+// /:id de una asignación de turno (área del empleado asignado)
+export const fromShiftAssignmentParam: AreaIdsResolver = async req => {
+  const assignment = await prisma.shiftAssignment.findUnique({
+    where: { id: req.params.id },
+    select: { employeeId: true }
+  });
+
+  return assignment ? findEmployeeAreaIds([assignment.employeeId]) : [];
+};
+
+// /:id de un empleado en consultas; cada usuario puede ver su propio registro
+export const fromOtherEmployeeParam: AreaIdsResolver = req =>
+  req.params.id === getCurrentUser(req)?.employeeId ? [] : findEmployeeAreaIds([req.params.id]);
+
+// ====================================================================
+// MIDDLEWARE
+// ====================================================================
+
+/**
+ * Restringir la ruta a las áreas que supervisa el usuario.
+ * Responde 403 con las áreas no autorizadas (null para empleados sin área); los controladores usan
+ * getAllowedAreaIds para limitar las consultas que no indican áreas.
+ */
+export function requireAreaAccess(...resolvers: AreaIdsResolver[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      if (!user) {
+        res.status(401).json({ error: 'No autenticado' });
+        return;
+      }
+
+      const allowedAreaIds = await loadAllowedAreaIds(user.id, user.role);
+      (req as AreaScopedRequest).allowedAreaIds = allowedAreaIds;
+
+      if (allowedAreaIds) {
+        const requestedAreaIds = (await Promise.all(resolvers.map(resolve => resolve(req)))).flat();
+        const forbiddenAreaIds = Array.from(new Set(
+          requestedAreaIds.filter(areaId => areaId === null || !allowedAreaIds.includes(areaId))
+        ));
+
+        if (forbiddenAreaIds.length > 0) {
+          res.status(403).json({
+            success: false,
+            error: 'Áreas no autorizadas',
+            message: 'No tienes permisos sobre una o más de las áreas solicitadas',
+            forbiddenAreaIds
+          });
+          return;
+        }
+      }
+
+      next();
+    } catch (error) {
+      console.error('Error en middleware de áreas:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Error de autorización',
+        message: 'Error interno del servidor'
+      });
+    }
+  };
+}
+
+/**
+ * Áreas permitidas al usuario actual (null: sin restricción).
+ * Solo está disponible en rutas protegidas con requireAreaAccess.
+ */
+export function getAllowedAreaIds(req: Request): string[] | null {
+  return (req as AreaScopedRequest).allowedAreaIds ?? null;
+}
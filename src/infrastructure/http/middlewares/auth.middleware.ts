@@ -2,6 +2,11 @@
 import jwt from 'jsonwebtoken';
 import { prisma } from '../../../server';
 import { setUserContext } from '../../../config/supabase';
+import { setAuditUser } from '../../database/audit';
+import { isPasswordExpired } from '../../../shared/utils/passwords';
+
+// Rutas permitidas mientras el usuario tenga un cambio de contraseña pendiente
+const PASSWORD_CHANGE_ALLOWED_PATHS = ['/api/auth/change-password', '/api/auth/logout'];
 
 // Extender Request con la propiedad user
 interface AuthRequest extends Request {
@@ -10,6 +15,8 @@ interface AuthRequest extends Request {
     email: string;
     role: 'ADMIN' | 'EDITOR' | 'VIEWER';
     employeeId?: string;
+    sessionId?: string;
+    mustChangePassword?: boolean;
   };
 }
 
@@ -36,10 +43,29 @@ export async function authMiddleware(
     // Verificar token JWT
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
 
-    // Buscar usuario en la base de datos
+    // Los tokens sin sesión (emitidos antes de los refresh tokens) ya no son válidos
+    if (!decoded.sessionId) {
+      res.status(401).json({ 
+        success: false,
+        error: 'Token inválido',
+        message: 'La sesión no es válida, inicie sesión nuevamente'
+      });
+      return;
+    }
+
+    // Buscar usuario en la base de datos junto con su sesión vigente
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
       include: { 
+        refreshTokens: {
+          where: {
+            sessionId: decoded.sessionId,
+            revokedAt: null,
+            expiresAt: { gt: new Date() }
+          },
+          select: { id: true },
+          take: 1
+        },
         employee: {
           select: {
             id: true,
@@ -68,6 +94,27 @@ export async function authMiddleware(
       return;
     }
 
+    if (user.refreshTokens.length === 0) {
+      res.status(401).json({ 
+        success: false,
+        error: 'Sesión revocada',
+        message: 'La sesión fue cerrada, inicie sesión nuevamente'
+      });
+      return;
+    }
+
+    // Contraseña temporal o vencida: solo se permite cambiarla
+    const mustChangePassword = user.mustChangePassword || isPasswordExpired(user.passwordChangedAt);
+    if (mustChangePassword && !PASSWORD_CHANGE_ALLOWED_PATHS.includes(`${req.baseUrl}${req.path}`)) {
+      res.status(403).json({ 
+        success: false,
+        error: 'Cambio de contraseña requerido',
+        message: 'Debe cambiar su contraseña en POST /api/auth/change-password antes de continuar',
+        mustChangePassword: true
+      });
+      return;
+    }
+
     // ========================================
     // 🔒 CRÍTICO: Establecer contexto para RLS
     // ========================================
@@ -83,9 +130,14 @@ export async function authMiddleware(
       id: user.id,
       email: user.email,
       role: user.role as 'ADMIN' | 'EDITOR' | 'VIEWER',
-      employeeId: user.employeeId
+      employeeId: user.employeeId,
+      sessionId: decoded.sessionId,
+      mustChangePassword
     };
 
+    // Las escrituras de esta petición quedan registradas a nombre del usuario
+    setAuditUser(user.id);
+
     // Log de auditoría para operaciones críticas (opcional)
     if (process.env.NODE_ENV === 'development') {
       console.log(`🔐 Auth: ${user.email} (${user.role}) - ${req.method} ${req.path}`);
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+const MAX_SPREADSHEET_SIZE = 5 * 1024 * 1024; // 5MB
+
+const ALLOWED_EXTENSIONS = ['.xlsx', '.csv'];
+
+// Archivos en memoria: las planillas se procesan y descartan en la misma petición
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SPREADSHEET_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    const fileName = file.originalname.toLowerCase();
+    callback(null, ALLOWED_EXTENSIONS.some(extension => fileName.endsWith(extension)));
+  }
+}).single('file');
+
+/**
+ * Recibir una planilla XLSX o CSV en el campo multipart "file"
+ */
+export function uploadSpreadsheet(req: Request, res: Response, next: NextFunction): void {
+  spreadsheetUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({
+        success: false,
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? 'El archivo no puede superar 5MB'
+          : `Error al recibir el archivo: ${error.message}`
+      });
+      return;
+    }
+
+    if (error) {
+      next(error);
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'Debe adjuntar un archivo .xlsx o .csv en el campo "file"'
+      });
+      return;
+    }
+
+    next();
+  });
+}
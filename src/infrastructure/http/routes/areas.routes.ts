@@ -2,16 +2,20 @@ import { Router } from 'express';
 import { AreasController } from '../controllers/AreasController';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { requireAdmin, requireViewer } from '../middlewares/role.middleware';
+import { requireAreaAccess } from '../middlewares/areaScope.middleware';
 
 const router = Router();
 
 // Todas las rutas requieren autenticación
 router.use(authMiddleware);
 
-router.get('/', requireViewer, AreasController.getAll);
-router.get('/:id', requireViewer, AreasController.getById);
+router.get('/', requireViewer, requireAreaAccess(), AreasController.getAll);
+router.get('/:id', requireViewer, requireAreaAccess(), AreasController.getById);
 router.post('/', requireAdmin, AreasController.create);
 router.put('/:id', requireAdmin, AreasController.update);
 router.delete('/:id', requireAdmin, AreasController.delete);
+router.get('/:id/supervisors', requireAdmin, AreasController.getSupervisors);
+router.post('/:id/supervisors', requireAdmin, AreasController.assignSupervisor);
+router.delete('/:id/supervisors/:userId', requireAdmin, AreasController.removeSupervisor);
 
 export default router;
\ No newline at end of file
@@ -2,15 +2,24 @@ import { Router } from 'express';
 import { AttendanceController } from '../controllers/AttendanceController';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { requireEditor } from '../middlewares/role.middleware';
+import { fromAttendanceParam, fromBodyRecordEmployees, fromQueryAreaIds, requireAreaAccess } from '../middlewares/areaScope.middleware';
+import { uploadSpreadsheet } from '../middlewares/upload.middleware';
 
 const router = Router();
 
 // Todas las rutas requieren autenticación
 router.use(authMiddleware);
 
-router.get('/template', requireEditor, AttendanceController.getTemplate);
-router.post('/bulk', requireEditor, AttendanceController.bulkCreate);
-router.get('/verify', requireEditor, AttendanceController.verify);
-router.get('/daily-summary', requireEditor, AttendanceController.getDailySummary);
+router.get('/template', requireEditor, requireAreaAccess(fromQueryAreaIds), AttendanceController.getTemplate);
+router.get('/template.:format', requireEditor, requireAreaAccess(fromQueryAreaIds), AttendanceController.downloadTemplate);
+router.post('/import', requireEditor, uploadSpreadsheet, requireAreaAccess(), AttendanceController.importSheet);
+router.post('/bulk', requireEditor, requireAreaAccess(fromBodyRecordEmployees), AttendanceController.bulkCreate);
+router.post('/bulk/validate', requireEditor, requireAreaAccess(fromBodyRecordEmployees), AttendanceController.bulkValidate);
+router.get('/verify', requireEditor, requireAreaAccess(fromQueryAreaIds), AttendanceController.verify);
+router.get('/daily-summary', requireEditor, requireAreaAccess(), AttendanceController.getDailySummary);
+router.get('/', requireEditor, requireAreaAccess(), AttendanceController.getAll);
+router.get('/:id', requireEditor, requireAreaAccess(fromAttendanceParam), AttendanceController.getById);
+router.put('/:id', requireEditor, requireAreaAccess(fromAttendanceParam), AttendanceController.update);
+router.delete('/:id', requireEditor, requireAreaAccess(fromAttendanceParam), AttendanceController.delete);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y rol ADMIN
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+router.get('/', AuditController.getAll);
+
+export default router;
@@ -1,6 +1,7 @@
 ﻿import { Router, Request, Response } from 'express';
 import { AuthController } from '../controllers/AuthController';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin } from '../middlewares/role.middleware';
 
 const router = Router();
 const controller = new AuthController();
@@ -10,11 +11,16 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   await controller.login(req, res);
 });
 
-router.post('/register', async (req: Request, res: Response): Promise<void> => {
-  await controller.register(req, res);
+router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
+  await controller.refresh(req, res);
 });
 
 // Rutas protegidas
+// El registro ya no es público: solo un ADMIN crea accesos (ver también /api/users)
+router.post('/register', authMiddleware, requireAdmin, async (req: Request, res: Response): Promise<void> => {
+  await controller.register(req, res);
+});
+
 router.get('/me', authMiddleware, async (req: Request, res: Response): Promise<void> => {
   await controller.me(req, res);
 });
@@ -23,4 +29,12 @@ router.post('/change-password', authMiddleware, async (req: Request, res: Respon
   await controller.changePassword(req, res);
 });
 
+router.post('/logout', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  await controller.logout(req, res);
+});
+
+router.post('/logout-all', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  await controller.logoutAll(req, res);
+});
+
 export default router;
\ No newline at end of file
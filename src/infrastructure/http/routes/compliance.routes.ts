@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ComplianceController } from '../controllers/ComplianceController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireEditor } from '../middlewares/role.middleware';
+import { fromQueryAreaIds, requireAreaAccess } from '../middlewares/areaScope.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.get('/weekly', requireEditor, requireAreaAccess(fromQueryAreaIds), ComplianceController.getWeekly);
+
+export default router;
@@ -2,17 +2,21 @@ import { Router } from 'express';
 import { EmployeesController } from '../controllers/EmployeesController';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { requireAdmin, requireEditor, requireViewer } from '../middlewares/role.middleware';
+import { fromBodyAreaId, fromEmployeeParam, fromOtherEmployeeParam, fromQueryAreaIds, requireAreaAccess } from '../middlewares/areaScope.middleware';
+import { uploadSpreadsheet } from '../middlewares/upload.middleware';
 
 const router = Router();
 
 // Todas las rutas requieren autenticación
 router.use(authMiddleware);
 
-router.get('/by-areas', requireViewer, EmployeesController.getByMultipleAreas);
-router.get('/', requireViewer, EmployeesController.getAll);
-router.get('/:id', requireViewer, EmployeesController.getById);
-router.post('/', requireEditor, EmployeesController.create);
-router.put('/:id', requireEditor, EmployeesController.update);
+router.get('/by-areas', requireViewer, requireAreaAccess(fromQueryAreaIds), EmployeesController.getByMultipleAreas);
+router.get('/', requireViewer, requireAreaAccess(fromQueryAreaIds), EmployeesController.getAll);
+router.get('/:id', requireViewer, requireAreaAccess(fromOtherEmployeeParam), EmployeesController.getById);
+router.get('/:id/history', requireViewer, requireAreaAccess(fromOtherEmployeeParam), EmployeesController.getHistory);
+router.post('/import', requireAdmin, uploadSpreadsheet, EmployeesController.importSheet);
+router.post('/', requireEditor, requireAreaAccess(fromBodyAreaId), EmployeesController.create);
+router.put('/:id', requireEditor, requireAreaAccess(fromEmployeeParam, fromBodyAreaId), EmployeesController.update);
 router.delete('/:id', requireAdmin, EmployeesController.delete);
 router.post('/:id/activate', requireAdmin, EmployeesController.activate);
 
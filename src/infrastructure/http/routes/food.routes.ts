@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { FoodController } from '../controllers/FoodController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireEditor } from '../middlewares/role.middleware';
+import { fromQueryAreaIds, requireAreaAccess } from '../middlewares/areaScope.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.get('/forecast', requireEditor, requireAreaAccess(fromQueryAreaIds), FoodController.getForecast);
+
+export default router;
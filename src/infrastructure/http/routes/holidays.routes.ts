@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { HolidaysController } from '../controllers/HolidaysController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y rol ADMIN
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+router.get('/', HolidaysController.getAll);
+router.get('/:id', HolidaysController.getById);
+router.post('/', HolidaysController.create);
+router.put('/:id', HolidaysController.update);
+router.delete('/:id', HolidaysController.delete);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { MeController } from '../controllers/MeController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireViewer } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y devuelven solo datos del empleado propio
+router.use(authMiddleware);
+
+router.get('/attendance', requireViewer, MeController.getAttendance);
+router.get('/summary', requireViewer, MeController.getSummary);
+router.get('/food', requireViewer, MeController.getFood);
+
+export default router;
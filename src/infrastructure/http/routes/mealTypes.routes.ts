@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { MealTypesController } from '../controllers/MealTypesController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y rol ADMIN
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+router.get('/', MealTypesController.getAll);
+router.post('/', MealTypesController.create);
+router.put('/:id', MealTypesController.update);
+router.delete('/:id', MealTypesController.delete);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { PeriodsController } from '../controllers/PeriodsController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin, requireEditor } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.post('/calculate', requireEditor, PeriodsController.calculate);
+router.post('/close', requireAdmin, PeriodsController.close);
+router.get('/:period', requireEditor, PeriodsController.getSummaries);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { PermissionTypesController } from '../controllers/PermissionTypesController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin, requireViewer } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.get('/', requireViewer, PermissionTypesController.getAll);
+router.post('/', requireAdmin, PermissionTypesController.create);
+router.put('/:id', requireAdmin, PermissionTypesController.update);
+router.delete('/:id', requireAdmin, PermissionTypesController.delete);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { ReportsController } from '../controllers/ReportsController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireEditor } from '../middlewares/role.middleware';
+import { fromQueryAreaIds, requireAreaAccess } from '../middlewares/areaScope.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.get('/payroll', requireEditor, requireAreaAccess(fromQueryAreaIds), ReportsController.getPayroll);
+router.get('/food', requireEditor, requireAreaAccess(fromQueryAreaIds), ReportsController.getFood);
+router.get('/permissions', requireEditor, requireAreaAccess(fromQueryAreaIds), ReportsController.getPermissions);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { SchedulesController } from '../controllers/SchedulesController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin, requireEditor, requireViewer } from '../middlewares/role.middleware';
+import { fromBodyEmployeeIds, fromQueryAreaIds, fromShiftAssignmentParam, requireAreaAccess } from '../middlewares/areaScope.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+// Asignaciones (antes de /:id)
+router.get('/assignments', requireViewer, requireAreaAccess(fromQueryAreaIds), SchedulesController.getAssignments);
+router.post('/assignments', requireEditor, requireAreaAccess(fromBodyEmployeeIds), SchedulesController.createAssignments);
+router.delete('/assignments/:id', requireEditor, requireAreaAccess(fromShiftAssignmentParam), SchedulesController.deleteAssignment);
+
+// Turnos
+router.get('/', requireViewer, SchedulesController.getAll);
+router.post('/', requireAdmin, SchedulesController.create);
+router.put('/:id', requireAdmin, SchedulesController.update);
+router.delete('/:id', requireAdmin, SchedulesController.delete);
+
+export default router;
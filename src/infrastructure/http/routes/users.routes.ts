@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { UsersController } from '../controllers/UsersController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireAdmin } from '../middlewares/role.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y rol ADMIN
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+router.get('/', UsersController.getAll);
+router.post('/', UsersController.create);
+router.put('/:id/role', UsersController.updateRole);
+router.put('/:id/area-access', UsersController.updateAreaAccess);
+router.post('/:id/activate', UsersController.activate);
+router.post('/:id/deactivate', UsersController.deactivate);
+router.post('/:id/reset-password', UsersController.resetPassword);
+router.post('/:id/unlock', UsersController.unlock);
+router.get('/:id/login-attempts', UsersController.getLoginAttempts);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { VacationsController } from '../controllers/VacationsController';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireEditor, requireViewer } from '../middlewares/role.middleware';
+import { fromVacationParam, requireAreaAccess } from '../middlewares/areaScope.middleware';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authMiddleware);
+
+router.get('/', requireViewer, VacationsController.getAll);
+router.get('/balance/:employeeId', requireViewer, VacationsController.getBalance);
+router.post('/', requireViewer, VacationsController.create);
+router.post('/:id/approve', requireEditor, requireAreaAccess(fromVacationParam), VacationsController.approve);
+router.post('/:id/reject', requireEditor, requireAreaAccess(fromVacationParam), VacationsController.reject);
+
+export default router;
@@ -1,4 +1,12 @@
 ﻿import { z } from 'zod';
+import { getPasswordPolicy, validatePasswordStrength } from '../../../shared/utils/passwords';
+
+// Contraseña nueva según la política vigente (ver getPasswordPolicy)
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  validatePasswordStrength(password, getPasswordPolicy()).forEach(message => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  });
+});
 
 export const loginSchema = z.object({
   email: z.string().email('Email inválido'),
@@ -7,21 +15,20 @@ export const loginSchema = z.object({
 
 export const registerSchema = z.object({
   email: z.string().email('Email inválido'),
-  password: z.string()
-    .min(6, 'La contraseña debe tener al menos 6 caracteres')
-    .regex(/[A-Z]/, 'Debe contener al menos una mayúscula')
-    .regex(/[0-9]/, 'Debe contener al menos un número'),
+  password: passwordSchema,
   employeeId: z.string().uuid('ID de empleado inválido')
 });
 
 export const changePasswordSchema = z.object({
   currentPassword: z.string(),
-  newPassword: z.string()
-    .min(6, 'La contraseña debe tener al menos 6 caracteres')
-    .regex(/[A-Z]/, 'Debe contener al menos una mayúscula')
-    .regex(/[0-9]/, 'Debe contener al menos un número')
+  newPassword: passwordSchema
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'El refresh token es requerido')
 });
 
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
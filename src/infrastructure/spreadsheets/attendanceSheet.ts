@@ -0,0 +1,191 @@
+import ExcelJS from 'exceljs';
+import {
+  cellToString,
+  loadWorksheet,
+  mapColumnsByHeader,
+  parseBoolean,
+  parseNumber,
+  SheetFormat
+} from './workbook';
+
+// ====================================================================
+// PLANILLA DE ASISTENCIA (XLSX / CSV)
+// Los supervisores de campo llenan la plantilla fuera del sistema y la
+// suben de vuelta; este módulo solo conoce el formato de las columnas
+// ====================================================================
+
+export interface AttendanceSheetTemplateRow {
+  employeeId: string;
+  identification: string;
+  fullName: string;
+  areaName: string;
+  defaultValues: {
+    entryTime: string;
+    exitTime: string;
+    lunchDuration: number;
+    isVacation: boolean;
+    permissionHours: number;
+    permissionReason: string;
+    foodAllowance: {
+      breakfast: number;
+      reinforcedBreakfast: number;
+      snack1: number;
+      afternoonSnack: number;
+      dryMeal: number;
+      lunch: number;
+      transport: number;
+    };
+  };
+}
+
+// Fila leída de la planilla, con la forma de attendanceRecordSchema pero sin validar
+export interface ParsedSheetRow {
+  rowNumber: number;
+  identification?: string;
+  record: {
+    employeeId?: string;
+    entryTime?: string;
+    exitTime?: string;
+    lunchDuration?: number;
+    isVacation?: boolean;
+    permissionHours?: number;
+    permissionReason?: string;
+    // Código del catálogo de tipos de permiso (se resuelve a permissionTypeId al importar)
+    permissionTypeCode?: string;
+    permissionDocument?: string;
+    foodAllowance: Record<string, number | undefined>;
+  };
+  errors: string[];
+}
+
+const COLUMNS = [
+  { key: 'employeeId', header: 'ID Empleado', width: 38 },
+  { key: 'identification', header: 'Cédula', width: 14 },
+  { key: 'fullName', header: 'Nombre', width: 32 },
+  { key: 'areaName', header: 'Área', width: 20 },
+  { key: 'entryTime', header: 'Entrada', width: 10 },
+  { key: 'exitTime', header: 'Salida', width: 10 },
+  { key: 'lunchDuration', header: 'Almuerzo (min)', width: 15 },
+  { key: 'isVacation', header: 'Vacaciones', width: 12 },
+  { key: 'permissionHours', header: 'Horas Permiso', width: 14 },
+  { key: 'permissionReason', header: 'Razón Permiso', width: 30 },
+  { key: 'permissionTypeCode', header: 'Tipo Permiso', width: 14 },
+  { key: 'permissionDocument', header: 'Documento Permiso', width: 20 },
+  { key: 'breakfast', header: 'Desayuno', width: 10 },
+  { key: 'reinforcedBreakfast', header: 'Desayuno Reforzado', width: 19 },
+  { key: 'snack1', header: 'Refrigerio', width: 11 },
+  { key: 'afternoonSnack', header: 'Merienda', width: 10 },
+  { key: 'dryMeal', header: 'Comida Seca', width: 12 },
+  { key: 'lunch', header: 'Almuerzo', width: 10 },
+  { key: 'transport', header: 'Transporte', width: 11 }
+] as const;
+
+type ColumnKey = typeof COLUMNS[number]['key'];
+
+const FOOD_KEYS = ['breakfast', 'reinforcedBreakfast', 'snack1', 'afternoonSnack', 'dryMeal', 'lunch', 'transport'] as const;
+
+// Columnas que deben conservarse como texto (ceros a la izquierda y horas HH:mm)
+const TEXT_COLUMNS: ColumnKey[] = ['employeeId', 'identification', 'entryTime', 'exitTime'];
+
+/**
+ * Generar la plantilla en XLSX o CSV con los valores por defecto de cada área
+ */
+export async function writeAttendanceSheet(
+  date: string,
+  rows: AttendanceSheetTemplateRow[],
+  format: SheetFormat
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(`Asistencia ${date}`);
+
+  worksheet.columns = COLUMNS.map(column => ({ ...column }));
+
+  rows.forEach(row => {
+    const { defaultValues } = row;
+    worksheet.addRow({
+      employeeId: row.employeeId,
+      identification: row.identification,
+      fullName: row.fullName,
+      areaName: row.areaName,
+      entryTime: defaultValues.entryTime,
+      exitTime: defaultValues.exitTime,
+      lunchDuration: defaultValues.lunchDuration,
+      isVacation: defaultValues.isVacation ? 'SI' : 'NO',
+      permissionHours: defaultValues.permissionHours,
+      permissionReason: defaultValues.permissionReason,
+      ...defaultValues.foodAllowance
+    });
+  });
+
+  if (format === 'csv') {
+    // BOM para que Excel reconozca las tildes al abrir el archivo
+    return Buffer.concat([Buffer.from('\uFEFF'), Buffer.from(await workbook.csv.writeBuffer())]);
+  }
+
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: 'frozen', xSplit: 4, ySplit: 1 }];
+  TEXT_COLUMNS.forEach(key => {
+    worksheet.getColumn(key).numFmt = '@';
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Leer una planilla llena y convertir cada fila en un registro de asistencia.
+ * Las columnas se reconocen por su encabezado; los números de fila son los de la hoja.
+ */
+export async function readAttendanceSheet(buffer: Buffer, format: SheetFormat): Promise<ParsedSheetRow[]> {
+  const worksheet = await loadWorksheet(buffer, format);
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    return [];
+  }
+
+  const columnIndexByKey = mapColumnsByHeader(worksheet, COLUMNS);
+
+  const parsedRows: ParsedSheetRow[] = [];
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+
+    const read = (key: ColumnKey): string => {
+      const columnNumber = columnIndexByKey.get(key);
+      return columnNumber ? cellToString(row.getCell(columnNumber).value) : '';
+    };
+    const header = (key: ColumnKey): string => COLUMNS.find(column => column.key === key)!.header;
+
+    // Ignorar filas completamente vacías
+    if (COLUMNS.every(column => read(column.key) === '')) {
+      return;
+    }
+
+    const errors: string[] = [];
+    const foodAllowance: Record<string, number | undefined> = {};
+    FOOD_KEYS.forEach(key => {
+      foodAllowance[key] = parseNumber(read(key), header(key), errors);
+    });
+
+    parsedRows.push({
+      rowNumber,
+      identification: read('identification') || undefined,
+      record: {
+        employeeId: read('employeeId') || undefined,
+        entryTime: read('entryTime') || undefined,
+        exitTime: read('exitTime') || undefined,
+        lunchDuration: parseNumber(read('lunchDuration'), header('lunchDuration'), errors),
+        isVacation: parseBoolean(read('isVacation'), header('isVacation'), errors),
+        permissionHours: parseNumber(read('permissionHours'), header('permissionHours'), errors),
+        permissionReason: read('permissionReason') || undefined,
+        permissionTypeCode: read('permissionTypeCode').toUpperCase() || undefined,
+        permissionDocument: read('permissionDocument') || undefined,
+        foodAllowance
+      },
+      errors
+    });
+  });
+
+  return parsedRows;
+}
@@ -0,0 +1,140 @@
+import ExcelJS from 'exceljs';
+import { DocumentType } from '../../shared/utils/identification';
+import { cellToString, loadWorksheet, mapColumnsByHeader, normalizeHeader, parseNumber, SheetFormat } from './workbook';
+
+// ====================================================================
+// PLANILLA DE EMPLEADOS (XLSX / CSV)
+// Nómina exportada desde RRHH para cargar altas y cambios de personal;
+// el área se indica por nombre y se resuelve al importar
+// ====================================================================
+
+// Fila leída de la planilla, con la forma de createEmployeeSchema pero sin validar
+export interface ParsedEmployeeRow {
+  rowNumber: number;
+  areaName?: string;
+  employee: {
+    identification?: string;
+    documentType?: DocumentType;
+    firstName?: string;
+    lastName?: string;
+    position?: string;
+    baseSalary?: number;
+    hireDate?: string;
+  };
+  errors: string[];
+}
+
+const COLUMNS = [
+  { key: 'identification', header: 'Cédula' },
+  { key: 'documentType', header: 'Tipo Documento' },
+  { key: 'firstName', header: 'Nombres' },
+  { key: 'lastName', header: 'Apellidos' },
+  { key: 'areaName', header: 'Área' },
+  { key: 'position', header: 'Cargo' },
+  { key: 'baseSalary', header: 'Salario' },
+  { key: 'hireDate', header: 'Fecha Ingreso' }
+] as const;
+
+type ColumnKey = typeof COLUMNS[number]['key'];
+
+const DOCUMENT_TYPES_BY_NAME: Record<string, DocumentType> = {
+  cedula: 'CEDULA',
+  ruc: 'RUC',
+  pasaporte: 'PASAPORTE'
+};
+
+// Excel guarda la cédula y el RUC como número y pierde el cero de las provincias 01-09
+function readIdentification(value: ExcelJS.CellValue): string {
+  const text = cellToString(value).toUpperCase();
+  return typeof value === 'number' && (text.length === 9 || text.length === 12) ? `0${text}` : text;
+}
+
+function readDocumentType(value: string, header: string, errors: string[]): DocumentType | undefined {
+  if (value === '') {
+    return undefined;
+  }
+
+  const documentType = DOCUMENT_TYPES_BY_NAME[normalizeHeader(value)];
+  if (!documentType) {
+    errors.push(`${header}: "${value}" debe ser CÉDULA, RUC o PASAPORTE`);
+  }
+
+  return documentType;
+}
+
+// Acepta celdas de fecha de Excel, YYYY-MM-DD y DD/MM/YYYY
+function readDate(value: ExcelJS.CellValue, header: string, errors: string[]): string | undefined {
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+
+  const text = cellToString(value);
+  if (text === '') {
+    return undefined;
+  }
+
+  const localDate = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (localDate) {
+    const [, day, month, year] = localDate;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    errors.push(`${header}: "${text}" debe tener el formato YYYY-MM-DD o DD/MM/YYYY`);
+    return undefined;
+  }
+
+  return text;
+}
+
+/**
+ * Leer la planilla de empleados. Las columnas se reconocen por su encabezado;
+ * los números de fila son los de la hoja.
+ */
+export async function readEmployeeSheet(buffer: Buffer, format: SheetFormat): Promise<ParsedEmployeeRow[]> {
+  const worksheet = await loadWorksheet(buffer, format);
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    return [];
+  }
+
+  const columnIndexByKey = mapColumnsByHeader(worksheet, COLUMNS);
+  const parsedRows: ParsedEmployeeRow[] = [];
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+
+    const cell = (key: ColumnKey): ExcelJS.CellValue => {
+      const columnNumber = columnIndexByKey.get(key);
+      return columnNumber ? row.getCell(columnNumber).value : null;
+    };
+    const read = (key: ColumnKey): string => cellToString(cell(key));
+    const header = (key: ColumnKey): string => COLUMNS.find(column => column.key === key)!.header;
+
+    // Ignorar filas completamente vacías
+    if (COLUMNS.every(column => read(column.key) === '')) {
+      return;
+    }
+
+    const errors: string[] = [];
+
+    parsedRows.push({
+      rowNumber,
+      areaName: read('areaName') || undefined,
+      employee: {
+        identification: readIdentification(cell('identification')) || undefined,
+        documentType: readDocumentType(read('documentType'), header('documentType'), errors),
+        firstName: read('firstName') || undefined,
+        lastName: read('lastName') || undefined,
+        position: read('position') || undefined,
+        baseSalary: parseNumber(read('baseSalary').replace(/[$\s]/g, ''), header('baseSalary'), errors),
+        hireDate: readDate(cell('hireDate'), header('hireDate'), errors)
+      },
+      errors
+    });
+  });
+
+  return parsedRows;
+}
@@ -0,0 +1,116 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+
+// ====================================================================
+// LECTURA DE PLANILLAS (XLSX / CSV)
+// Utilidades comunes a las planillas que se suben al sistema
+// ====================================================================
+
+export type SheetFormat = 'xlsx' | 'csv';
+
+export const SHEET_CONTENT_TYPES: Record<SheetFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8'
+};
+
+const TRUE_VALUES = ['si', 'sí', 's', 'x', 'true', '1'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+export function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+// Convertir el valor de una celda (texto, número, fecha, fórmula, etc.) a texto plano
+export function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    // Excel convierte "06:30" en una fecha 1899-12-30T06:30:00Z
+    return `${String(value.getUTCHours()).padStart(2, '0')}:${String(value.getUTCMinutes()).padStart(2, '0')}`;
+  }
+
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('').trim();
+    }
+    if ('result' in value) {
+      return cellToString(value.result as ExcelJS.CellValue);
+    }
+    if ('text' in value) {
+      return String(value.text).trim();
+    }
+    return '';
+  }
+
+  return String(value).trim();
+}
+
+export function parseNumber(value: string, header: string, errors: string[]): number | undefined {
+  if (value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value.replace(',', '.'));
+  if (Number.isNaN(parsed)) {
+    errors.push(`${header}: "${value}" no es un número`);
+    return undefined;
+  }
+
+  return parsed;
+}
+
+export function parseBoolean(value: string, header: string, errors: string[]): boolean | undefined {
+  const normalized = normalizeHeader(value);
+
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return normalized === '' ? undefined : false;
+
+  errors.push(`${header}: "${value}" debe ser SI o NO`);
+  return undefined;
+}
+
+/**
+ * Cargar la primera hoja del archivo subido
+ */
+export async function loadWorksheet(buffer: Buffer, format: SheetFormat): Promise<ExcelJS.Worksheet | undefined> {
+  const workbook = new ExcelJS.Workbook();
+
+  if (format === 'csv') {
+    // Excel en español guarda los CSV separados por punto y coma
+    const headerLine = buffer.toString('utf8').split(/\r?\n/, 1)[0];
+    const delimiter = headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+
+    // Sin conversión automática para no perder ceros a la izquierda en la cédula
+    return workbook.csv.read(Readable.from(buffer), {
+      map: (value: string) => value,
+      parserOptions: { delimiter }
+    });
+  }
+
+  await workbook.xlsx.load(buffer);
+  return workbook.worksheets[0];
+}
+
+/**
+ * Ubicar cada columna conocida por el texto de su encabezado (fila 1)
+ */
+export function mapColumnsByHeader<K extends string>(
+  worksheet: ExcelJS.Worksheet,
+  columns: readonly { key: K; header: string }[]
+): Map<K, number> {
+  const headerByName = new Map<string, K>(
+    columns.map(column => [normalizeHeader(column.header), column.key])
+  );
+  const columnIndexByKey = new Map<K, number>();
+
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    const key = headerByName.get(normalizeHeader(cellToString(cell.value)));
+    if (key) {
+      columnIndexByKey.set(key, columnNumber);
+    }
+  });
+
+  return columnIndexByKey;
+}
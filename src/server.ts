@@ -4,8 +4,9 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
 import rateLimit from 'express-rate-limit';
+import { auditContextMiddleware } from './infrastructure/database/audit';
+import { createClient, DatabaseClient } from './infrastructure/database/client';
 
 // Cargar variables de entorno
 dotenv.config();
@@ -14,10 +15,8 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Inicializar Prisma
-export const prisma = new PrismaClient({
-  log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-});
+// Inicializar Prisma (con la auditoría de cambios)
+export const prisma: DatabaseClient = createClient();
 
 // Rate limiting
 const limiter = rateLimit({
@@ -29,6 +28,22 @@ const limiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  // Las rutas de autenticación tienen su propio límite
+  skip: (req) => req.path.startsWith('/auth/'),
+});
+
+// Rate limiting de autenticación: solo cuentan las respuestas fallidas,
+// así los logins correctos de la oficina (misma IP) no agotan el cupo
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 20, // intentos fallidos por IP
+  skipSuccessfulRequests: true,
+  message: {
+    success: false,
+    message: 'Demasiados intentos de autenticación desde esta IP, intenta más tarde.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
 });
 
 // Middlewares de seguridad
@@ -44,6 +59,8 @@ app.use(compression());
 app.use(morgan('dev'));
 app.use(express.json({ limit: '10mb' })); // Aumentado para soportar bulk inserts
 app.use(express.urlencoded({ extended: true }));
+app.use(auditContextMiddleware);
+app.use('/api/auth/', authLimiter);
 app.use('/api/', limiter);
 
 // Health check
@@ -83,14 +100,29 @@ app.get('/api', (req, res) => {
       auth: '/api/auth',
       areas: '/api/areas',
       employees: '/api/employees',
-      attendance: '/api/attendance'
+      attendance: '/api/attendance',
+      periods: '/api/periods',
+      holidays: '/api/holidays',
+      audit: '/api/audit',
+      reports: '/api/reports',
+      mealTypes: '/api/meal-types',
+      food: '/api/food',
+      vacations: '/api/vacations',
+      permissionTypes: '/api/permission-types',
+      schedules: '/api/schedules',
+      compliance: '/api/compliance',
+      me: '/api/me',
+      users: '/api/users'
     },
     documentation: {
       auth: {
         login: 'POST /api/auth/login',
-        register: 'POST /api/auth/register',
+        register: 'POST /api/auth/register (ADMIN only)',
         me: 'GET /api/auth/me',
-        changePassword: 'POST /api/auth/change-password'
+        changePassword: 'POST /api/auth/change-password',
+        refresh: 'POST /api/auth/refresh',
+        logout: 'POST /api/auth/logout',
+        logoutAll: 'POST /api/auth/logout-all'
       },
       areas: {
         list: 'GET /api/areas',
@@ -99,23 +131,105 @@ app.get('/api', (req, res) => {
         getById: 'GET /api/areas/:id',
         create: 'POST /api/areas (ADMIN only)',
         update: 'PUT /api/areas/:id (ADMIN only)',
-        delete: 'DELETE /api/areas/:id (ADMIN only)'
+        delete: 'DELETE /api/areas/:id (ADMIN only)',
+        supervisors: 'GET /api/areas/:id/supervisors (ADMIN only)',
+        assignSupervisor: 'POST /api/areas/:id/supervisors (ADMIN only)',
+        removeSupervisor: 'DELETE /api/areas/:id/supervisors/:userId (ADMIN only)'
       },
       employees: {
         list: 'GET /api/employees',
         byMultipleAreas: 'GET /api/employees/by-areas?areaIds=id1,id2,id3 (CRÍTICO)',
         search: 'GET /api/employees?search=juan&areaId=uuid',
         getById: 'GET /api/employees/:id',
+        history: 'GET /api/employees/:id/history',
         create: 'POST /api/employees (ADMIN/EDITOR)',
-        update: 'PUT /api/employees/:id (ADMIN/EDITOR)',
+        update: 'PUT /api/employees/:id (ADMIN/EDITOR, effectiveDate/changeReason para cambios de área, cargo o salario)',
         delete: 'DELETE /api/employees/:id (ADMIN only)',
-        activate: 'POST /api/employees/:id/activate (ADMIN only)'
+        activate: 'POST /api/employees/:id/activate (ADMIN only)',
+        import: 'POST /api/employees/import (multipart: file .xlsx/.csv, preview, deactivateMissing - ADMIN only)'
       },
       attendance: {
         template: 'GET /api/attendance/template?areaIds=id1,id2&date=2025-01-06 (CRÍTICO)',
-        bulk: 'POST /api/attendance/bulk (CRÍTICO para 615 empleados)',
+        bulk: 'POST /api/attendance/bulk (CRÍTICO para 615 empleados, mode: create|upsert|skip)',
+        templateFile: 'GET /api/attendance/template.xlsx|template.csv?areaIds=id1,id2&date=2025-01-06',
+        bulkValidate: 'POST /api/attendance/bulk/validate (validación sin guardar)',
+        import: 'POST /api/attendance/import (multipart: file .xlsx/.csv, date, mode)',
         verify: 'GET /api/attendance/verify?date=2025-01-06',
-        dailySummary: 'GET /api/attendance/daily-summary?date=2025-01-06'
+        dailySummary: 'GET /api/attendance/daily-summary?date=2025-01-06',
+        list: 'GET /api/attendance?employeeId=uuid&from=2025-01-01&to=2025-01-31',
+        getById: 'GET /api/attendance/:id',
+        update: 'PUT /api/attendance/:id (ADMIN/EDITOR)',
+        delete: 'DELETE /api/attendance/:id (ADMIN/EDITOR)'
+      },
+      periods: {
+        summaries: 'GET /api/periods/:period (YYYY-MM, del 26 al 25)',
+        calculate: 'POST /api/periods/calculate (ADMIN/EDITOR)',
+        close: 'POST /api/periods/close (ADMIN only)'
+      },
+      holidays: {
+        list: 'GET /api/holidays?year=2025 (ADMIN only)',
+        getById: 'GET /api/holidays/:id (ADMIN only)',
+        create: 'POST /api/holidays (ADMIN only)',
+        update: 'PUT /api/holidays/:id (ADMIN only)',
+        delete: 'DELETE /api/holidays/:id (ADMIN only)'
+      },
+      audit: {
+        list: 'GET /api/audit?userId=&action=CREATE|UPDATE|DELETE&entity=&entityId=&from=&to= (ADMIN only)'
+      },
+      reports: {
+        payroll: 'GET /api/reports/payroll?periodStart=2024-12-26&periodEnd=2025-01-25&areaIds=id1,id2 (ADMIN/EDITOR)',
+        food: 'GET /api/reports/food?from=2024-12-26&to=2025-01-25&areaIds=id1,id2 (ADMIN/EDITOR)',
+        permissions: 'GET /api/reports/permissions?periodStart=2024-12-26&periodEnd=2025-01-25&areaIds=id1,id2&employeeId=uuid (ADMIN/EDITOR)'
+      },
+      mealTypes: {
+        list: 'GET /api/meal-types?code=D&activeOn=2025-01-06 (ADMIN only)',
+        create: 'POST /api/meal-types (ADMIN only)',
+        update: 'PUT /api/meal-types/:id (ADMIN only)',
+        delete: 'DELETE /api/meal-types/:id (ADMIN only)'
+      },
+      food: {
+        forecast: 'GET /api/food/forecast?date=2025-01-07&weeks=4&areaIds=id1,id2 (ADMIN/EDITOR)'
+      },
+      vacations: {
+        list: 'GET /api/vacations?employeeId=&status=PENDING|APPROVED|REJECTED&from=&to=',
+        balance: 'GET /api/vacations/balance/:employeeId',
+        request: 'POST /api/vacations (VIEWER solo para sí mismo)',
+        approve: 'POST /api/vacations/:id/approve (ADMIN/EDITOR)',
+        reject: 'POST /api/vacations/:id/reject (ADMIN/EDITOR)'
+      },
+      permissionTypes: {
+        list: 'GET /api/permission-types?includeInactive=true',
+        create: 'POST /api/permission-types (ADMIN only)',
+        update: 'PUT /api/permission-types/:id (ADMIN only)',
+        delete: 'DELETE /api/permission-types/:id (ADMIN only)'
+      },
+      schedules: {
+        list: 'GET /api/schedules?includeInactive=true',
+        create: 'POST /api/schedules (ADMIN only)',
+        update: 'PUT /api/schedules/:id (ADMIN only)',
+        delete: 'DELETE /api/schedules/:id (ADMIN only)',
+        assignments: 'GET /api/schedules/assignments?employeeId=&areaId=&scheduleId=&date=',
+        assign: 'POST /api/schedules/assignments (ADMIN/EDITOR)',
+        unassign: 'DELETE /api/schedules/assignments/:id (ADMIN/EDITOR)'
+      },
+      compliance: {
+        weekly: 'GET /api/compliance/weekly?weekStart=2025-01-06&areaIds=id1,id2&includeCompliant=true (ADMIN/EDITOR)'
+      },
+      me: {
+        attendance: 'GET /api/me/attendance?from=2025-01-01&to=2025-01-31 (propios)',
+        summary: 'GET /api/me/summary?period=2025-01 (propio)',
+        food: 'GET /api/me/food?from=2025-01-01&to=2025-01-31 (propia)'
+      },
+      users: {
+        list: 'GET /api/users?role=EDITOR&isActive=true&search=maria (ADMIN only)',
+        create: 'POST /api/users (ADMIN only)',
+        updateRole: 'PUT /api/users/:id/role (ADMIN only)',
+        updateAreaAccess: 'PUT /api/users/:id/area-access (ADMIN only)',
+        activate: 'POST /api/users/:id/activate (ADMIN only)',
+        deactivate: 'POST /api/users/:id/deactivate (ADMIN only)',
+        resetPassword: 'POST /api/users/:id/reset-password (ADMIN only)',
+        unlock: 'POST /api/users/:id/unlock (ADMIN only)',
+        loginAttempts: 'GET /api/users/:id/login-attempts?success=false&limit=50 (ADMIN only)'
       }
     },
     status: {
@@ -138,12 +252,36 @@ import authRoutes from './infrastructure/http/routes/auth.routes';
 import areaRoutes from './infrastructure/http/routes/areas.routes';
 import employeeRoutes from './infrastructure/http/routes/employees.routes';
 import attendanceRoutes from './infrastructure/http/routes/attendance.routes';
+import periodRoutes from './infrastructure/http/routes/periods.routes';
+import holidayRoutes from './infrastructure/http/routes/holidays.routes';
+import auditRoutes from './infrastructure/http/routes/audit.routes';
+import reportRoutes from './infrastructure/http/routes/reports.routes';
+import mealTypeRoutes from './infrastructure/http/routes/mealTypes.routes';
+import foodRoutes from './infrastructure/http/routes/food.routes';
+import vacationsRoutes from './infrastructure/http/routes/vacations.routes';
+import permissionTypeRoutes from './infrastructure/http/routes/permissionTypes.routes';
+import scheduleRoutes from './infrastructure/http/routes/schedules.routes';
+import complianceRoutes from './infrastructure/http/routes/compliance.routes';
+import meRoutes from './infrastructure/http/routes/me.routes';
+import userRoutes from './infrastructure/http/routes/users.routes';
 
 // Configurar rutas
 app.use('/api/auth', authRoutes);
 app.use('/api/areas', areaRoutes);
 app.use('/api/employees', employeeRoutes);
 app.use('/api/attendance', attendanceRoutes);
+app.use('/api/periods', periodRoutes);
+app.use('/api/holidays', holidayRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/meal-types', mealTypeRoutes);
+app.use('/api/food', foodRoutes);
+app.use('/api/vacations', vacationsRoutes);
+app.use('/api/permission-types', permissionTypeRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/compliance', complianceRoutes);
+app.use('/api/me', meRoutes);
+app.use('/api/users', userRoutes);
 
 // Manejo de rutas no encontradas
 app.use((req, res) => {
@@ -202,6 +340,18 @@ const server = app.listen(PORT, () => {
 🏢 Areas:       http://localhost:${PORT}/api/areas
 👥 Employees:   http://localhost:${PORT}/api/employees
 📅 Attendance:  http://localhost:${PORT}/api/attendance
+🗓️ Periods:     http://localhost:${PORT}/api/periods
+🎉 Holidays:    http://localhost:${PORT}/api/holidays
+🕵️ Audit:       http://localhost:${PORT}/api/audit
+📊 Reports:     http://localhost:${PORT}/api/reports
+🍽️ Meal Types:  http://localhost:${PORT}/api/meal-types
+🥪 Food:        http://localhost:${PORT}/api/food
+🏖️ Vacations:   http://localhost:${PORT}/api/vacations
+🩺 Permissions: http://localhost:${PORT}/api/permission-types
+⏰ Schedules:   http://localhost:${PORT}/api/schedules
+⚖️ Compliance:  http://localhost:${PORT}/api/compliance
+🙋 Me:          http://localhost:${PORT}/api/me
+👥 Users:       http://localhost:${PORT}/api/users
 📝 Health:      http://localhost:${PORT}/health
 📖 Docs:        http://localhost:${PORT}/api
 
@@ -239,7 +389,7 @@ curl http://localhost:${PORT}/health
 # 2. Login admin
 curl -X POST http://localhost:${PORT}/api/auth/login \\
   -H "Content-Type: application/json" \\
-  -d '{"email":"admin@hojaverde.com","password":"admin123"}'
+  -d '{"email":"admin@hojaverde.com","password":"TU_CONTRASEÑA"}'
 
 # 3. Obtener empleados por áreas
 curl -X GET "http://localhost:${PORT}/api/employees/by-areas?areaIds=AREA1,AREA2,AREA3" \\
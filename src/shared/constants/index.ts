@@ -19,6 +19,52 @@ export const EXTRA_HOURS_RATES = {
   EXTRAORDINARY: 1.0   // 100% - Sábados, domingos y feriados
 };
 
+// Sesiones: access token corto y refresh token que se rota en cada uso
+export const AUTH_TOKENS = {
+  ACCESS_TOKEN_MINUTES: 15,
+  REFRESH_TOKEN_DAYS: 7
+};
+
+// Protección del login: espera creciente entre intentos fallidos y bloqueo temporal
+export const LOGIN_PROTECTION = {
+  DELAY_AFTER_FAILURES: 2,     // Desde el segundo fallo consecutivo se exige esperar
+  BASE_DELAY_SECONDS: 2,       // 2s, 4s, 8s... entre intentos
+  MAX_DELAY_SECONDS: 60,
+  MAX_FAILED_ATTEMPTS: 5,      // Al quinto fallo consecutivo la cuenta se bloquea
+  LOCKOUT_MINUTES: 15
+};
+
+// Política de contraseñas por defecto; cada valor se puede sobrescribir con
+// PASSWORD_MIN_LENGTH, PASSWORD_REQUIRE_UPPERCASE, ..., PASSWORD_MAX_AGE_DAYS
+export const PASSWORD_POLICY = {
+  MIN_LENGTH: 8,
+  REQUIRE_UPPERCASE: true,
+  REQUIRE_LOWERCASE: true,
+  REQUIRE_DIGIT: true,
+  REQUIRE_SYMBOL: false,
+  HISTORY_SIZE: 5,     // No se puede repetir ninguna de las últimas 5 contraseñas (0 = sin control)
+  MAX_AGE_DAYS: 90     // Cambio obligatorio cada 90 días (0 = sin vencimiento)
+};
+
+// Valor hora = sueldo mensual / horas mensuales (30 días x 8 horas)
+export const PAYROLL = {
+  MONTHLY_HOURS: 240
+};
+
+// Límites semanales del Código del Trabajo (jornada de 40 horas, Arts. 47 y 55)
+export const LABOR_LIMITS = {
+  WEEKLY_ORDINARY_HOURS: 40,
+  MAX_CONSECUTIVE_WORK_DAYS: 6,      // Al séptimo día corresponde descanso
+  MAX_DAILY_SUPPLEMENTARY_HOURS: 4,
+  MAX_WEEKLY_SUPPLEMENTARY_HOURS: 12
+};
+
+// Franja de trabajo nocturno (recargo NIGHT)
+export const NIGHT_SHIFT = {
+  START_TIME: '19:00',
+  END_TIME: '06:00'
+};
+
 // Tipos de alimentación
 export const FOOD_TYPES = {
   D: 'Desayuno',
@@ -29,6 +75,46 @@ export const FOOD_TYPES = {
   A: 'Almuerzo'
 };
 
+// Campo de FoodAllowance que cuenta cada tipo de alimentación
+export const FOOD_TYPE_FIELDS = {
+  D: 'breakfast',
+  DR: 'reinforcedBreakfast',
+  R1: 'snack1',
+  MR: 'afternoonSnack',
+  S: 'dryMeal',
+  A: 'lunch'
+} as const;
+
+// Alimentación por defecto de un día laborable (plantilla de registro)
+export const DEFAULT_FOOD_ALLOWANCE = {
+  breakfast: 1,
+  reinforcedBreakfast: 0,
+  snack1: 1,
+  afternoonSnack: 0,
+  dryMeal: 0,
+  lunch: 1,
+  transport: 0
+};
+
+// En vacaciones no se sirve alimentación ni transporte
+export const VACATION_FOOD_ALLOWANCE = {
+  breakfast: 0,
+  reinforcedBreakfast: 0,
+  snack1: 0,
+  afternoonSnack: 0,
+  dryMeal: 0,
+  lunch: 0,
+  transport: 0
+};
+
+// Vacaciones anuales (Código del Trabajo): 15 días por año de servicio,
+// más un día adicional por cada año a partir del quinto, hasta 15 adicionales
+export const VACATION_POLICY = {
+  DAYS_PER_YEAR: 15,
+  EXTRA_DAYS_AFTER_YEARS: 5,
+  MAX_EXTRA_DAYS: 15
+};
+
 // Roles del sistema
 export const ROLES = {
   ADMIN: 'ADMIN',
@@ -4,6 +4,7 @@ export interface User {
   email: string;
   role: 'ADMIN' | 'EDITOR' | 'VIEWER';
   employeeId?: string;
+  mustChangePassword?: boolean;
 }
 
 export interface AuthRequest {
@@ -14,12 +15,15 @@ export interface AuthRequest {
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
+  expiresIn: number;
 }
 
 // Tipos de empleado
 export interface Employee {
   id: string;
   identification: string;
+  documentType: 'CEDULA' | 'RUC' | 'PASAPORTE';
   firstName: string;
   lastName: string;
   areaId?: string;
@@ -50,6 +54,8 @@ export interface AttendanceRecord {
   isVacation: boolean;
   permissionHours?: number;
   permissionReason?: string;
+  permissionTypeId?: string;
+  permissionDocument?: string;
 }
 
 // Tipos para requests
@@ -60,6 +66,7 @@ export interface CreateEmployeeRequest {
   areaId?: string;
   position?: string;
   baseSalary?: number;
+  hireDate?: string;
 }
 
 export interface CreateAttendanceRequest {
@@ -71,6 +78,8 @@ export interface CreateAttendanceRequest {
   isVacation?: boolean;
   permissionHours?: number;
   permissionReason?: string;
+  permissionTypeId?: string;
+  permissionDocument?: string;
 }
 
 // Agregar a Express Request
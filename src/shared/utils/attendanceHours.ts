@@ -0,0 +1,75 @@
+import { calculateNightHours } from './timeIntervals';
+import { DayType, isRestDay } from './calendar';
+
+export function calculateWorkedHours(entryTime: string, exitTime: string, lunchDuration: number, permissionHours: number = 0): number {
+  const entry = new Date(`1970-01-01T${entryTime}:00`);
+  const exit = new Date(`1970-01-01T${exitTime}:00`);
+  
+  let diffMs = exit.getTime() - entry.getTime();
+  
+  // Si la salida es antes que la entrada, asumimos que cruzó medianoche
+  if (diffMs < 0) {
+    diffMs += 24 * 60 * 60 * 1000; // Añadir 24 horas
+  }
+  
+  const totalHours = diffMs / (1000 * 60 * 60);
+  const lunchHours = lunchDuration / 60;
+  
+  return Math.max(0, totalHours - lunchHours - permissionHours);
+}
+
+/**
+ * Clasificar horas extras según EXTRA_HOURS_RATES:
+ * - Sábados, domingos y feriados: todas las horas trabajadas son extraordinarias (100%)
+ * - Lunes a viernes: las horas sobre la jornada son suplementarias (50%)
+ * nightHours: horas trabajadas entre 19:00 y 06:00 (recargo independiente de las horas extras)
+ */
+export function calculateExtraHours(workedHours: number, defaultWorkingHours: number, dayType: DayType, nightHours: number = 0) {
+  const baseHours = defaultWorkingHours || 8;
+
+  if (isRestDay(dayType)) {
+    return { nightHours, supplementaryHours: 0, extraordinaryHours: workedHours };
+  }
+  
+  if (workedHours <= baseHours) {
+    return { nightHours, supplementaryHours: 0, extraordinaryHours: 0 };
+  }
+  
+  return { 
+    nightHours, 
+    supplementaryHours: workedHours - baseHours, 
+    extraordinaryHours: 0 
+  };
+}
+
+export interface ShiftInput {
+  entryTime?: string | null;
+  exitTime?: string | null;
+  lunchDuration?: number | null;
+  isVacation?: boolean;
+  permissionHours?: number | null;
+  // Los permisos remunerados no descuentan horas trabajadas
+  isPaidPermission?: boolean;
+}
+
+/**
+ * Calcular horas trabajadas, nocturnas, suplementarias y extraordinarias de un registro.
+ * Las vacaciones y los registros sin horario no generan horas.
+ * Solo los permisos no remunerados se descuentan de las horas trabajadas.
+ */
+export function calculateRecordHours(shift: ShiftInput, defaultWorkingHours: number, dayType: DayType) {
+  if (shift.isVacation || !shift.entryTime || !shift.exitTime) {
+    return { workedHours: 0, nightHours: 0, supplementaryHours: 0, extraordinaryHours: 0 };
+  }
+
+  const lunchDuration = shift.lunchDuration || 30;
+  const permissionHours = shift.isPaidPermission ? 0 : shift.permissionHours || 0;
+
+  const workedHours = calculateWorkedHours(shift.entryTime, shift.exitTime, lunchDuration, permissionHours);
+  const nightHours = calculateNightHours(shift.entryTime, shift.exitTime, lunchDuration, permissionHours);
+
+  return {
+    workedHours,
+    ...calculateExtraHours(workedHours, defaultWorkingHours, dayType, nightHours)
+  };
+}
@@ -0,0 +1,21 @@
+export type DayType = 'WEEKDAY' | 'WEEKEND' | 'HOLIDAY';
+
+// Verificar si una fecha (@db.Date, UTC) cae en sábado o domingo
+export function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Clasificar el día para el cálculo de horas extras:
+ * feriados y fines de semana son días de descanso (recargo EXTRAORDINARY)
+ */
+export function getDayType(date: Date, isHoliday: boolean): DayType {
+  if (isHoliday) return 'HOLIDAY';
+  if (isWeekend(date)) return 'WEEKEND';
+  return 'WEEKDAY';
+}
+
+export function isRestDay(dayType: DayType): boolean {
+  return dayType !== 'WEEKDAY';
+}
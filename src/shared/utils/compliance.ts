@@ -0,0 +1,106 @@
+import { LABOR_LIMITS } from '../constants';
+import { formatDateToString } from './period';
+
+export type ComplianceViolationCode =
+  | 'WEEKLY_ORDINARY_HOURS_EXCEEDED'
+  | 'NO_WEEKLY_REST'
+  | 'DAILY_SUPPLEMENTARY_CAP_EXCEEDED'
+  | 'WEEKLY_SUPPLEMENTARY_CAP_EXCEEDED';
+
+export interface ComplianceViolation {
+  code: ComplianceViolationCode;
+  message: string;
+  date?: string;
+}
+
+export interface ComplianceDay {
+  date: Date;
+  workedHours: number;
+  supplementaryHours: number;
+  extraordinaryHours: number;
+  isVacation: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isWorkedDay(day: ComplianceDay): boolean {
+  return !day.isVacation && day.workedHours > 0;
+}
+
+/**
+ * Evaluar una semana de un empleado contra LABOR_LIMITS.
+ * days: registros desde 6 días antes de weekStart hasta el fin de la semana,
+ * para detectar rachas de trabajo sin descanso que empiezan en la semana anterior.
+ */
+export function evaluateWeeklyCompliance(days: ComplianceDay[], weekStart: Date, weekEnd: Date) {
+  const weekDays = days.filter(day => day.date >= weekStart && day.date <= weekEnd);
+  const violations: ComplianceViolation[] = [];
+
+  // Horas ordinarias: trabajadas menos suplementarias y extraordinarias
+  const ordinaryHours = round(weekDays.reduce((sum, day) =>
+    sum + Math.max(0, day.workedHours - day.supplementaryHours - day.extraordinaryHours), 0));
+  const supplementaryHours = round(weekDays.reduce((sum, day) => sum + day.supplementaryHours, 0));
+  const extraordinaryHours = round(weekDays.reduce((sum, day) => sum + day.extraordinaryHours, 0));
+
+  if (ordinaryHours > LABOR_LIMITS.WEEKLY_ORDINARY_HOURS) {
+    violations.push({
+      code: 'WEEKLY_ORDINARY_HOURS_EXCEEDED',
+      message: `${ordinaryHours} horas ordinarias en la semana (máximo ${LABOR_LIMITS.WEEKLY_ORDINARY_HOURS})`
+    });
+  }
+
+  weekDays
+    .filter(day => day.supplementaryHours > LABOR_LIMITS.MAX_DAILY_SUPPLEMENTARY_HOURS)
+    .forEach(day => {
+      violations.push({
+        code: 'DAILY_SUPPLEMENTARY_CAP_EXCEEDED',
+        message: `${round(day.supplementaryHours)} horas suplementarias en el día (máximo ${LABOR_LIMITS.MAX_DAILY_SUPPLEMENTARY_HOURS})`,
+        date: formatDateToString(day.date)
+      });
+    });
+
+  if (supplementaryHours > LABOR_LIMITS.MAX_WEEKLY_SUPPLEMENTARY_HOURS) {
+    violations.push({
+      code: 'WEEKLY_SUPPLEMENTARY_CAP_EXCEEDED',
+      message: `${supplementaryHours} horas suplementarias en la semana (máximo ${LABOR_LIMITS.MAX_WEEKLY_SUPPLEMENTARY_HOURS})`
+    });
+  }
+
+  // Racha de días consecutivos trabajados; un día sin registro cuenta como descanso
+  const workedDates = new Set(days.filter(isWorkedDay).map(day => day.date.getTime()));
+  let consecutiveDays = 0;
+  let maxConsecutiveDays = 0;
+  let restViolationReported = false;
+
+  for (let time = weekStart.getTime() - LABOR_LIMITS.MAX_CONSECUTIVE_WORK_DAYS * MS_PER_DAY; time <= weekEnd.getTime(); time += MS_PER_DAY) {
+    consecutiveDays = workedDates.has(time) ? consecutiveDays + 1 : 0;
+
+    if (time < weekStart.getTime()) {
+      continue;
+    }
+
+    maxConsecutiveDays = Math.max(maxConsecutiveDays, consecutiveDays);
+
+    if (consecutiveDays > LABOR_LIMITS.MAX_CONSECUTIVE_WORK_DAYS && !restViolationReported) {
+      violations.push({
+        code: 'NO_WEEKLY_REST',
+        message: `${consecutiveDays} días consecutivos trabajados sin descanso`,
+        date: formatDateToString(new Date(time))
+      });
+      restViolationReported = true;
+    }
+  }
+
+  return {
+    daysWorked: weekDays.filter(isWorkedDay).length,
+    ordinaryHours,
+    supplementaryHours,
+    extraordinaryHours,
+    maxConsecutiveDays,
+    violations
+  };
+}
@@ -0,0 +1,108 @@
+// ====================================================================
+// IDENTIFICACIÓN ECUATORIANA
+// Cédula (módulo 10) y RUC de personas naturales, sociedades privadas
+// y entidades públicas. Los pasaportes de extranjeros no tienen dígito
+// verificador y solo se valida su formato.
+// ====================================================================
+
+export const DOCUMENT_TYPES = ['CEDULA', 'RUC', 'PASAPORTE'] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+// 24 provincias y 30 para ecuatorianos registrados en el exterior
+const MAX_PROVINCE_CODE = 24;
+const FOREIGN_PROVINCE_CODE = 30;
+
+const CEDULA_COEFFICIENTS = [2, 1, 2, 1, 2, 1, 2, 1, 2];
+const PRIVATE_RUC_COEFFICIENTS = [4, 3, 2, 7, 6, 5, 4, 3, 2];
+const PUBLIC_RUC_COEFFICIENTS = [3, 2, 7, 6, 5, 4, 3, 2];
+
+function toDigits(value: string): number[] {
+  return value.split('').map(Number);
+}
+
+function isValidProvince(value: string): boolean {
+  const province = parseInt(value.substring(0, 2), 10);
+  return (province >= 1 && province <= MAX_PROVINCE_CODE) || province === FOREIGN_PROVINCE_CODE;
+}
+
+// Suma ponderada módulo 11 usada por el SRI para sociedades y entidades públicas
+function modulo11CheckDigit(digits: number[], coefficients: number[]): number {
+  const sum = coefficients.reduce((total, coefficient, index) => total + coefficient * digits[index], 0);
+  const remainder = sum % 11;
+  return remainder === 0 ? 0 : 11 - remainder;
+}
+
+/**
+ * Dígito verificador de una cédula (módulo 10 sobre los 9 primeros dígitos)
+ */
+export function isValidCedula(cedula: string): boolean {
+  if (!/^\d{10}$/.test(cedula) || !isValidProvince(cedula)) {
+    return false;
+  }
+
+  const digits = toDigits(cedula);
+
+  // El tercer dígito de una persona natural va de 0 a 5
+  if (digits[2] > 5) {
+    return false;
+  }
+
+  const sum = CEDULA_COEFFICIENTS.reduce((total, coefficient, index) => {
+    const product = coefficient * digits[index];
+    return total + (product > 9 ? product - 9 : product);
+  }, 0);
+
+  return (10 - (sum % 10)) % 10 === digits[9];
+}
+
+/**
+ * RUC: el tercer dígito indica el tipo de contribuyente
+ * (0-5 persona natural, 6 entidad pública, 9 sociedad privada)
+ */
+export function isValidRuc(ruc: string): boolean {
+  if (!/^\d{13}$/.test(ruc) || !isValidProvince(ruc)) {
+    return false;
+  }
+
+  const digits = toDigits(ruc);
+  const thirdDigit = digits[2];
+
+  if (thirdDigit <= 5) {
+    return isValidCedula(ruc.substring(0, 10)) && ruc.substring(10) !== '000';
+  }
+
+  if (thirdDigit === 6) {
+    return modulo11CheckDigit(digits, PUBLIC_RUC_COEFFICIENTS) === digits[8] && ruc.substring(9) !== '0000';
+  }
+
+  if (thirdDigit === 9) {
+    return modulo11CheckDigit(digits, PRIVATE_RUC_COEFFICIENTS) === digits[9] && ruc.substring(10) !== '000';
+  }
+
+  return false;
+}
+
+/**
+ * Errores de la identificación según su tipo de documento (vacío si es válida)
+ */
+export function validateIdentification(documentType: DocumentType, identification: string): string[] {
+  switch (documentType) {
+  case 'CEDULA':
+    if (!/^\d{10}$/.test(identification)) {
+      return ['La cédula debe tener 10 dígitos'];
+    }
+    return isValidCedula(identification) ? [] : ['La cédula no es válida (provincia o dígito verificador incorrecto)'];
+
+  case 'RUC':
+    if (!/^\d{13}$/.test(identification)) {
+      return ['El RUC debe tener 13 dígitos'];
+    }
+    return isValidRuc(identification) ? [] : ['El RUC no es válido (provincia, tipo o dígito verificador incorrecto)'];
+
+  case 'PASAPORTE':
+    return /^[A-Z0-9]{5,20}$/.test(identification)
+      ? []
+      : ['El pasaporte debe tener entre 5 y 20 letras o números'];
+  }
+}
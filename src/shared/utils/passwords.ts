@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { PASSWORD_POLICY } from '../constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Sin caracteres ambiguos (0/O, 1/l/I) para dictarla por teléfono o en papel
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const DIGITS = '23456789';
+const SYMBOLS = '!@#$%&*?';
+
+const TEMPORARY_PASSWORD_MIN_LENGTH = 12;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
+  maxAgeDays: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : value === 'true';
+}
+
+/**
+ * Política vigente: variables de entorno PASSWORD_* o los valores de PASSWORD_POLICY
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: readNumber('PASSWORD_MIN_LENGTH', PASSWORD_POLICY.MIN_LENGTH),
+    requireUppercase: readBoolean('PASSWORD_REQUIRE_UPPERCASE', PASSWORD_POLICY.REQUIRE_UPPERCASE),
+    requireLowercase: readBoolean('PASSWORD_REQUIRE_LOWERCASE', PASSWORD_POLICY.REQUIRE_LOWERCASE),
+    requireDigit: readBoolean('PASSWORD_REQUIRE_DIGIT', PASSWORD_POLICY.REQUIRE_DIGIT),
+    requireSymbol: readBoolean('PASSWORD_REQUIRE_SYMBOL', PASSWORD_POLICY.REQUIRE_SYMBOL),
+    historySize: readNumber('PASSWORD_HISTORY_SIZE', PASSWORD_POLICY.HISTORY_SIZE),
+    maxAgeDays: readNumber('PASSWORD_MAX_AGE_DAYS', PASSWORD_POLICY.MAX_AGE_DAYS)
+  };
+}
+
+/**
+ * Reglas de composición que incumple la contraseña (vacío si es válida)
+ */
+export function validatePasswordStrength(password: string, policy: PasswordPolicy = getPasswordPolicy()): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`La contraseña debe tener al menos ${policy.minLength} caracteres`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Debe contener al menos una mayúscula');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Debe contener al menos una minúscula');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    errors.push('Debe contener al menos un número');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Debe contener al menos un símbolo');
+  }
+
+  return errors;
+}
+
+/**
+ * La contraseña superó la antigüedad máxima y debe cambiarse
+ */
+export function isPasswordExpired(
+  passwordChangedAt: Date,
+  policy: PasswordPolicy = getPasswordPolicy(),
+  now: Date = new Date()
+): boolean {
+  return policy.maxAgeDays > 0 && now.getTime() - passwordChangedAt.getTime() > policy.maxAgeDays * MS_PER_DAY;
+}
+
+function pick(charset: string): string {
+  return charset[crypto.randomInt(charset.length)];
+}
+
+/**
+ * Generar una contraseña temporal que cumple la política (mínimo 12 caracteres)
+ */
+export function generateTemporaryPassword(policy: PasswordPolicy = getPasswordPolicy()): string {
+  const length = Math.max(TEMPORARY_PASSWORD_MIN_LENGTH, policy.minLength);
+  const allChars = UPPERCASE + LOWERCASE + DIGITS + (policy.requireSymbol ? SYMBOLS : '');
+  const chars = [pick(UPPERCASE), pick(LOWERCASE), pick(DIGITS)];
+
+  if (policy.requireSymbol) {
+    chars.push(pick(SYMBOLS));
+  }
+
+  while (chars.length < length) {
+    chars.push(pick(allChars));
+  }
+
+  // Mezclar (Fisher-Yates) para que los caracteres obligatorios no queden al inicio
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
+}
@@ -0,0 +1,65 @@
+import { EXTRA_HOURS_RATES, PAYROLL } from '../constants';
+import { getPeriodForDate } from './period';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExtraHoursTotals {
+  nightHours: number;
+  supplementaryHours: number;
+  extraordinaryHours: number;
+}
+
+export interface ExtraHoursPay {
+  nightSurcharge: number;
+  supplementaryPay: number;
+  extraordinaryPay: number;
+  total: number;
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Valor de la hora ordinaria a partir del sueldo mensual
+ */
+export function getHourlyRate(baseSalary: number): number {
+  return baseSalary / PAYROLL.MONTHLY_HOURS;
+}
+
+/**
+ * Valorar las horas extras según EXTRA_HOURS_RATES:
+ * - Suplementarias y extraordinarias se pagan completas con su recargo (150% / 200%)
+ * - Las nocturnas ya están pagadas como ordinarias o extras; solo suman el recargo del 25%
+ */
+export function calculateExtraHoursPay(hours: ExtraHoursTotals, hourlyRate: number): ExtraHoursPay {
+  const nightSurcharge = hours.nightHours * hourlyRate * EXTRA_HOURS_RATES.NIGHT;
+  const supplementaryPay = hours.supplementaryHours * hourlyRate * (1 + EXTRA_HOURS_RATES.SUPPLEMENTARY);
+  const extraordinaryPay = hours.extraordinaryHours * hourlyRate * (1 + EXTRA_HOURS_RATES.EXTRAORDINARY);
+
+  return {
+    nightSurcharge: roundMoney(nightSurcharge),
+    supplementaryPay: roundMoney(supplementaryPay),
+    extraordinaryPay: roundMoney(extraordinaryPay),
+    total: roundMoney(nightSurcharge + supplementaryPay + extraordinaryPay)
+  };
+}
+
+/**
+ * Sueldo que corresponde a los días del rango (ambos inclusive).
+ * Cada día vale el sueldo mensual vigente dividido para los días de su período
+ * de nómina (26 al 25), así un período completo suma exactamente un sueldo.
+ */
+export function prorateSalary(from: Date, to: Date, salaryOn: (date: Date) => number): number {
+  let total = 0;
+
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    const date = new Date(time);
+    const { periodStart, periodEnd } = getPeriodForDate(date);
+    const periodDays = Math.round((periodEnd.getTime() - periodStart.getTime()) / DAY_MS) + 1;
+
+    total += salaryOn(date) / periodDays;
+  }
+
+  return roundMoney(total);
+}
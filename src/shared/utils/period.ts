@@ -0,0 +1,44 @@
+import { MONTHLY_PERIOD } from '../constants';
+
+export interface PeriodRange {
+  period: string;      // YYYY-MM (mes en el que cierra el período)
+  periodStart: Date;   // Día 26 del mes anterior
+  periodEnd: Date;     // Día 25 del mes indicado
+}
+
+// Formatear Date (@db.Date) a string YYYY-MM-DD
+export function formatDateToString(date: Date): string {
+  return date.toISOString().substr(0, 10);
+}
+
+/**
+ * Obtener el rango de fechas de un período de nómina.
+ * El período "2025-01" va del 26 de diciembre de 2024 al 25 de enero de 2025.
+ */
+export function getPeriodRange(period: string): PeriodRange {
+  const [year, month] = period.split('-').map(Number);
+
+  const periodEnd = new Date(Date.UTC(year, month - 1, MONTHLY_PERIOD.END_DAY));
+  const periodStart = new Date(Date.UTC(year, month - 2, MONTHLY_PERIOD.START_DAY));
+
+  return { period, periodStart, periodEnd };
+}
+
+/**
+ * Obtener el período de nómina al que pertenece una fecha
+ */
+export function getPeriodForDate(date: Date): PeriodRange {
+  let year = date.getUTCFullYear();
+  let month = date.getUTCMonth() + 1;
+
+  // Del 26 en adelante la fecha pertenece al período que cierra el mes siguiente
+  if (date.getUTCDate() >= MONTHLY_PERIOD.START_DAY) {
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+
+  return getPeriodRange(`${year}-${String(month).padStart(2, '0')}`);
+}
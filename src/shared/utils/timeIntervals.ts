@@ -0,0 +1,83 @@
+import { NIGHT_SHIFT } from '../constants';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+interface Interval {
+  start: number; // minutos desde la medianoche del día de entrada
+  end: number;
+}
+
+export interface ShiftMinutes {
+  dayMinutes: number;
+  nightMinutes: number;
+}
+
+// Convertir "HH:mm" a minutos desde la medianoche
+export function timeToMinutes(timeString: string): number {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function overlap(a: Interval, b: Interval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * Franjas nocturnas que pueden solaparse con un turno de hasta 24 horas:
+ * madrugada y noche del día de entrada, y madrugada del día siguiente.
+ */
+function getNightIntervals(): Interval[] {
+  const nightStart = timeToMinutes(NIGHT_SHIFT.START_TIME);
+  const nightEnd = timeToMinutes(NIGHT_SHIFT.END_TIME);
+
+  return [
+    { start: 0, end: nightEnd },
+    { start: nightStart, end: MINUTES_PER_DAY + nightEnd },
+    { start: MINUTES_PER_DAY + nightStart, end: 2 * MINUTES_PER_DAY }
+  ];
+}
+
+/**
+ * Dividir un turno en minutos diurnos y nocturnos (19:00 - 06:00).
+ * Si la salida es antes que la entrada, el turno cruzó medianoche.
+ * El almuerzo y las horas de permiso se descuentan primero de la parte diurna.
+ */
+export function splitShiftMinutes(
+  entryTime: string,
+  exitTime: string,
+  lunchDuration: number = 0,
+  permissionHours: number = 0
+): ShiftMinutes {
+  const start = timeToMinutes(entryTime);
+  let end = timeToMinutes(exitTime);
+
+  if (end < start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  const shift: Interval = { start, end };
+  const totalMinutes = end - start;
+  const rawNightMinutes = getNightIntervals()
+    .reduce((sum, interval) => sum + overlap(shift, interval), 0);
+  const rawDayMinutes = totalMinutes - rawNightMinutes;
+
+  const deductedMinutes = lunchDuration + permissionHours * 60;
+  const dayMinutes = Math.max(0, rawDayMinutes - deductedMinutes);
+  const remainingDeduction = Math.max(0, deductedMinutes - rawDayMinutes);
+  const nightMinutes = Math.max(0, rawNightMinutes - remainingDeduction);
+
+  return { dayMinutes, nightMinutes };
+}
+
+/**
+ * Horas trabajadas dentro de la franja nocturna
+ */
+export function calculateNightHours(
+  entryTime: string,
+  exitTime: string,
+  lunchDuration: number = 0,
+  permissionHours: number = 0
+): number {
+  const { nightMinutes } = splitShiftMinutes(entryTime, exitTime, lunchDuration, permissionHours);
+  return nightMinutes / 60;
+}
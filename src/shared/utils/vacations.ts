@@ -0,0 +1,58 @@
+import { VACATION_POLICY } from '../constants';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Días calendario entre dos fechas, ambas incluidas
+export function countCalendarDays(startDate: Date, endDate: Date): number {
+  return Math.floor((endDate.getTime() - startDate.getTime()) / MS_PER_DAY) + 1;
+}
+
+// Lista de fechas (UTC) entre dos fechas, ambas incluidas
+export function listDates(startDate: Date, endDate: Date): Date[] {
+  return Array.from({ length: countCalendarDays(startDate, endDate) }, (_, index) =>
+    new Date(startDate.getTime() + index * MS_PER_DAY)
+  );
+}
+
+// Días que corresponden al año de servicio número `year` (1, 2, 3...)
+function daysForServiceYear(year: number): number {
+  const extraDays = Math.min(
+    Math.max(0, year - VACATION_POLICY.EXTRA_DAYS_AFTER_YEARS),
+    VACATION_POLICY.MAX_EXTRA_DAYS
+  );
+  return VACATION_POLICY.DAYS_PER_YEAR + extraDays;
+}
+
+/**
+ * Días de vacaciones acumulados desde la fecha de ingreso hasta asOf.
+ * Los años completos suman sus días; el año en curso suma la parte proporcional.
+ */
+export function calculateAccruedVacationDays(hireDate: Date, asOf: Date): number {
+  if (asOf < hireDate) {
+    return 0;
+  }
+
+  let accrued = 0;
+  let serviceYear = 1;
+  let yearStart = hireDate;
+
+  for (;;) {
+    const yearEnd = new Date(Date.UTC(
+      yearStart.getUTCFullYear() + 1,
+      yearStart.getUTCMonth(),
+      yearStart.getUTCDate()
+    ));
+
+    if (yearEnd > asOf) {
+      const fraction = (asOf.getTime() - yearStart.getTime()) / (yearEnd.getTime() - yearStart.getTime());
+      accrued += daysForServiceYear(serviceYear) * fraction;
+      break;
+    }
+
+    accrued += daysForServiceYear(serviceYear);
+    serviceYear += 1;
+    yearStart = yearEnd;
+  }
+
+  return Math.round(accrued * 100) / 100;
+}
@@ -0,0 +1,182 @@
+import { auditContextMiddleware, createAuditExtension, setAuditUser } from '../../../src/infrastructure/database/audit';
+
+type Row = Record<string, unknown>;
+
+interface QueryHookParams {
+  model: string;
+  operation: string;
+  args: Row;
+  query: (args: Row) => Promise<unknown>;
+}
+
+interface CapturedExtension {
+  query?: { $allModels: { $allOperations(params: QueryHookParams): Promise<unknown> } };
+  client?: { $transaction(fn: (tx: unknown) => Promise<unknown>): Promise<unknown> };
+}
+
+// Cliente de transacción en memoria con un empleado y el registro de auditoría
+function createTransactionClient() {
+  const employees = new Map<string, Row>([['employee-1', { id: 'employee-1', position: 'Cosechador' }]]);
+  const auditEntries: Row[] = [];
+
+  const tx = {
+    employee: {
+      findUnique: jest.fn(async ({ where }) => employees.get(where.id) || null),
+      findMany: jest.fn(async () => Array.from(employees.values())),
+      update: jest.fn(async ({ where, data }) => {
+        const updated = { ...employees.get(where.id), ...data };
+        employees.set(where.id, updated);
+        return updated;
+      }),
+      // La base completa el ID y los valores por defecto
+      createManyAndReturn: jest.fn(async ({ data }) => (data as Row[]).map((row, index) => {
+        const created = { id: `employee-new-${index}`, isActive: true, ...row };
+        employees.set(created.id, created);
+        return created;
+      }))
+    },
+    auditLog: {
+      createMany: jest.fn(async ({ data }) => {
+        auditEntries.push(...data);
+        return { count: data.length };
+      })
+    }
+  };
+
+  return { tx, employees, auditEntries };
+}
+
+// Aplicar la extensión sobre un cliente falso y devolver el hook de consultas y el $transaction extendido
+function setupExtension(tx: unknown) {
+  const extensions: CapturedExtension[] = [];
+  const auditedClient = {
+    $transaction: jest.fn(async (fn: (client: unknown) => Promise<unknown>) => fn(tx)),
+    $extends: (extension: CapturedExtension) => {
+      extensions.push(extension);
+      return {};
+    }
+  };
+  const baseClient = {
+    $transaction: jest.fn(async (fn: (client: unknown) => Promise<unknown>) => fn(tx)),
+    $extends: (extension: CapturedExtension) => {
+      extensions.push(extension);
+      return auditedClient;
+    }
+  };
+
+  (createAuditExtension() as unknown as (client: unknown) => unknown)(baseClient);
+
+  return {
+    baseClient,
+    runQuery: (params: QueryHookParams) => extensions[0].query!.$allModels.$allOperations(params),
+    transaction: (fn: (client: unknown) => Promise<unknown>) => extensions[1].client!.$transaction(fn)
+  };
+}
+
+// Ejecutar dentro del contexto de auditoría de una petición autenticada
+function withRequestContext<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    auditContextMiddleware({} as never, {} as never, () => {
+      setAuditUser(userId);
+      fn().then(resolve, reject);
+    });
+  });
+}
+
+const updatePosition = { where: { id: 'employee-1' }, data: { position: 'Supervisor' } };
+
+describe('extensión de auditoría', () => {
+  it('ejecuta una escritura suelta y su auditoría en una misma transacción', async () => {
+    const { tx, auditEntries } = createTransactionClient();
+    const { baseClient, runQuery } = setupExtension(tx);
+    const query = jest.fn();
+
+    await withRequestContext('user-1', () =>
+      runQuery({ model: 'Employee', operation: 'update', args: updatePosition, query })
+    );
+
+    expect(baseClient.$transaction).toHaveBeenCalledTimes(1);
+    expect(query).not.toHaveBeenCalled();
+    expect(tx.employee.update).toHaveBeenCalledWith(updatePosition);
+    expect(auditEntries).toEqual([{
+      userId: 'user-1',
+      action: 'UPDATE',
+      entity: 'Employee',
+      entityId: 'employee-1',
+      before: { id: 'employee-1', position: 'Cosechador' },
+      after: { id: 'employee-1', position: 'Supervisor' }
+    }]);
+  });
+
+  it('propaga el error si no se puede guardar la auditoría, para revertir el cambio', async () => {
+    const { tx } = createTransactionClient();
+    tx.auditLog.createMany.mockRejectedValueOnce(new Error('audit_logs no disponible'));
+    const { runQuery } = setupExtension(tx);
+
+    await expect(runQuery({ model: 'Employee', operation: 'update', args: updatePosition, query: jest.fn() }))
+      .rejects.toThrow('audit_logs no disponible');
+  });
+
+  it('dentro de una transacción interactiva usa su cliente sin abrir otra', async () => {
+    const { tx, auditEntries } = createTransactionClient();
+    const { baseClient, runQuery, transaction } = setupExtension(tx);
+    const query = jest.fn(async (args: Row) => tx.employee.update(args as typeof updatePosition));
+
+    await transaction(() => runQuery({ model: 'Employee', operation: 'update', args: updatePosition, query }));
+
+    expect(baseClient.$transaction).not.toHaveBeenCalled();
+    expect(query).toHaveBeenCalledWith(updatePosition);
+    expect(tx.employee.findUnique).toHaveBeenCalledWith({ where: { id: 'employee-1' } });
+    expect(auditEntries).toHaveLength(1);
+  });
+
+  it('registra los valores finales releídos en las actualizaciones masivas', async () => {
+    const { tx, auditEntries } = createTransactionClient();
+    const { runQuery, transaction } = setupExtension(tx);
+    const query = jest.fn(async () => {
+      await tx.employee.update(updatePosition);
+      return { count: 1 };
+    });
+
+    await transaction(() => runQuery({ model: 'Employee', operation: 'updateMany', args: { where: {} }, query }));
+
+    expect(tx.employee.findMany).toHaveBeenLastCalledWith({ where: { id: { in: ['employee-1'] } } });
+    expect(auditEntries[0]).toMatchObject({
+      before: { position: 'Cosechador' },
+      after: { position: 'Supervisor' }
+    });
+  });
+
+  it('registra las filas guardadas por createMany, no los datos de entrada', async () => {
+    const { tx, auditEntries } = createTransactionClient();
+    const { runQuery } = setupExtension(tx);
+    const query = jest.fn();
+
+    const result = await runQuery({
+      model: 'Employee',
+      operation: 'createMany',
+      args: { data: [{ firstName: 'Ana' }, { firstName: 'Luis' }] },
+      query
+    });
+
+    expect(result).toEqual({ count: 2 });
+    expect(query).not.toHaveBeenCalled();
+    expect(auditEntries.map(entry => [entry.entityId, entry.after])).toEqual([
+      ['employee-new-0', { id: 'employee-new-0', isActive: true, firstName: 'Ana' }],
+      ['employee-new-1', { id: 'employee-new-1', isActive: true, firstName: 'Luis' }]
+    ]);
+  });
+
+  it('no audita los modelos ni las operaciones de lectura', async () => {
+    const { tx, auditEntries } = createTransactionClient();
+    const { baseClient, runQuery } = setupExtension(tx);
+    const query = jest.fn(async () => []);
+
+    await runQuery({ model: 'AuditLog', operation: 'createMany', args: { data: [] }, query });
+    await runQuery({ model: 'Employee', operation: 'findMany', args: {}, query });
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(baseClient.$transaction).not.toHaveBeenCalled();
+    expect(auditEntries).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  BulkAttendanceInput,
+  BulkEmployee,
+  BulkPermissionType,
+  persistBulkAttendance,
+  planBulkAttendance
+} from '../../../src/infrastructure/database/bulkAttendance';
+import { TransactionClient } from '../../../src/infrastructure/database/client';
+
+// La auditoría se guarda con el cliente de la aplicación; aquí solo interesa el número de consultas
+jest.mock('../../../src/infrastructure/database/audit', () => ({
+  recordAuditChanges: jest.fn()
+}));
+
+const EMPLOYEE_COUNT = 615;
+const DATE = new Date('2025-07-15T00:00:00.000Z');
+
+interface RecordedQuery {
+  name: string;
+  rows: number;
+}
+
+// Cliente de transacción que registra cada consulta en lugar de ejecutarla
+function createRecordingClient(queries: RecordedQuery[]): TransactionClient {
+  const model = (modelName: string) => ({
+    findMany: async (args: { where: { id: { in: string[] } } }) => {
+      queries.push({ name: `${modelName}.findMany`, rows: args.where.id.in.length });
+      return [];
+    },
+    createMany: async (args: { data: unknown[] }) => {
+      queries.push({ name: `${modelName}.createMany`, rows: args.data.length });
+      return { count: args.data.length };
+    },
+    deleteMany: async (args: { where: { attendanceId: { in: string[] } } }) => {
+      queries.push({ name: `${modelName}.deleteMany`, rows: args.where.attendanceId.in.length });
+      return { count: args.where.attendanceId.in.length };
+    }
+  });
+
+  const client = {
+    attendanceRecord: model('attendanceRecord'),
+    foodAllowance: model('foodAllowance'),
+    extraHours: model('extraHours'),
+    $executeRaw: async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+      queries.push({ name: '$executeRaw', rows: values.length });
+      return values.length;
+    }
+  };
+
+  return client as unknown as TransactionClient;
+}
+
+function buildEmployees(count: number): Map<string, BulkEmployee> {
+  return new Map(Array.from({ length: count }, (_, index) => {
+    const id = `employee-${index}`;
+    return [id, {
+      id,
+      identification: String(1700000000 + index),
+      firstName: 'Empleado',
+      lastName: String(index),
+      area: { name: 'Poscosecha', defaultWorkingHours: 8 }
+    }];
+  }));
+}
+
+// Jornadas variadas: normales, con horas extras, nocturnas, vacaciones y permisos
+function buildRecords(count: number, permissionTypeId: string): BulkAttendanceInput[] {
+  return Array.from({ length: count }, (_, index) => {
+    const employeeId = `employee-${index}`;
+
+    switch (index % 4) {
+    case 0:
+      return { employeeId, entryTime: '06:30', exitTime: '15:00', lunchDuration: 30, foodAllowance: { breakfast: 1, lunch: 1 } };
+    case 1:
+      return { employeeId, entryTime: '06:00', exitTime: '19:30', lunchDuration: 30, foodAllowance: { lunch: 1, transport: 1.5 } };
+    case 2:
+      return { employeeId, entryTime: '18:00', exitTime: '03:00', lunchDuration: 30 };
+    default:
+      return index % 8 === 3
+        ? { employeeId, isVacation: true }
+        : { employeeId, entryTime: '06:30', exitTime: '15:00', permissionHours: 2, permissionTypeId };
+    }
+  });
+}
+
+function runBulk(count: number, existingCount: number) {
+  const permissionType: BulkPermissionType = {
+    id: 'permission-medical',
+    code: 'MEDICO',
+    name: 'Cita médica',
+    isPaid: true,
+    requiresDocument: false,
+    isActive: true
+  };
+  const records = buildRecords(count, permissionType.id);
+  const existingByEmployee = new Map(
+    records.slice(0, existingCount).map((record, index) => [record.employeeId, `attendance-${index}`])
+  );
+
+  return planBulkAttendance({
+    records,
+    employeeMap: buildEmployees(count),
+    permissionTypeMap: new Map([[permissionType.id, permissionType]]),
+    existingByEmployee,
+    mode: 'upsert',
+    dayType: 'WEEKDAY'
+  });
+}
+
+describe('guardado masivo de asistencia', () => {
+  it(`guarda ${EMPLOYEE_COUNT} registros con un número fijo de consultas`, async () => {
+    const queries: RecordedQuery[] = [];
+    const startedAt = Date.now();
+
+    const plan = runBulk(EMPLOYEE_COUNT, 200);
+    await persistBulkAttendance(createRecordingClient(queries), DATE, plan.rows, 'user-1');
+
+    const elapsedMs = Date.now() - startedAt;
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.rows).toHaveLength(EMPLOYEE_COUNT);
+    expect(queries.map(query => query.name)).toEqual([
+      'attendanceRecord.createMany',
+      'attendanceRecord.findMany',
+      '$executeRaw',
+      'attendanceRecord.findMany',
+      'foodAllowance.deleteMany',
+      'extraHours.deleteMany',
+      'foodAllowance.createMany',
+      'extraHours.createMany'
+    ]);
+    expect(queries[0].rows).toBe(EMPLOYEE_COUNT - 200);
+    expect(queries[6].rows).toBe(EMPLOYEE_COUNT);
+    expect(elapsedMs).toBeLessThan(5000);
+  });
+
+  it('no aumenta las consultas con el número de registros', async () => {
+    const smallRun: RecordedQuery[] = [];
+    const largeRun: RecordedQuery[] = [];
+
+    await persistBulkAttendance(createRecordingClient(smallRun), DATE, runBulk(10, 4).rows);
+    await persistBulkAttendance(createRecordingClient(largeRun), DATE, runBulk(EMPLOYEE_COUNT, 200).rows);
+
+    expect(largeRun).toHaveLength(smallRun.length);
+  });
+
+  it('solo inserta cuando no hay registros existentes', async () => {
+    const queries: RecordedQuery[] = [];
+
+    await persistBulkAttendance(createRecordingClient(queries), DATE, runBulk(EMPLOYEE_COUNT, 0).rows);
+
+    expect(queries.map(query => query.name)).toEqual([
+      'attendanceRecord.createMany',
+      'foodAllowance.createMany',
+      'extraHours.createMany'
+    ]);
+  });
+});
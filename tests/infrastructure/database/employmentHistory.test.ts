@@ -0,0 +1,44 @@
+import { TransactionClient } from '../../../src/infrastructure/database/client';
+import { createAreaResolver, createSalaryResolver } from '../../../src/infrastructure/database/employmentHistory';
+
+// Historial de un empleado trasladado y con aumento de sueldo
+const HISTORY = [
+  { employeeId: 'employee-1', areaId: 'area-poscosecha', baseSalary: 700, effectiveFrom: new Date('2025-01-11') },
+  { employeeId: 'employee-1', areaId: 'area-cultivo', baseSalary: 600, effectiveFrom: new Date('2024-06-01') }
+];
+
+function createHistoryClient(): TransactionClient {
+  const client = {
+    employmentHistory: {
+      findMany: async () => HISTORY
+    }
+  };
+
+  return client as unknown as TransactionClient;
+}
+
+describe('historial laboral', () => {
+  it('resuelve el sueldo vigente en cada fecha', async () => {
+    const resolveSalary = await createSalaryResolver(createHistoryClient(), ['employee-1']);
+
+    expect(resolveSalary('employee-1', 700, new Date('2025-01-10'))).toBe(600);
+    expect(resolveSalary('employee-1', 700, new Date('2025-01-11'))).toBe(700);
+    expect(resolveSalary('employee-1', 700, new Date('2025-03-01'))).toBe(700);
+  });
+
+  it('usa la situación más antigua antes del primer cambio', async () => {
+    const resolveSalary = await createSalaryResolver(createHistoryClient(), ['employee-1']);
+    const resolveArea = await createAreaResolver(createHistoryClient(), ['employee-1']);
+
+    expect(resolveSalary('employee-1', 700, new Date('2024-01-01'))).toBe(600);
+    expect(resolveArea('employee-1', 'area-poscosecha', new Date('2024-01-01'))).toBe('area-cultivo');
+  });
+
+  it('usa los datos actuales si el empleado no tiene historial', async () => {
+    const resolveSalary = await createSalaryResolver(createHistoryClient(), ['employee-1']);
+    const resolveArea = await createAreaResolver(createHistoryClient(), ['employee-1']);
+
+    expect(resolveSalary('employee-2', 550, new Date('2025-01-10'))).toBe(550);
+    expect(resolveArea('employee-2', 'area-empaque', new Date('2025-01-10'))).toBe('area-empaque');
+  });
+});
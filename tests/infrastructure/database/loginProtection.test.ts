@@ -0,0 +1,119 @@
+import { TransactionClient } from '../../../src/infrastructure/database/client';
+import {
+  getLoginBlock,
+  getLoginDelaySeconds,
+  LoginProtectionState,
+  registerFailedLogin
+} from '../../../src/infrastructure/database/loginProtection';
+
+const NOW = new Date('2025-07-15T12:00:00.000Z');
+
+function secondsAgo(seconds: number): Date {
+  return new Date(NOW.getTime() - seconds * 1000);
+}
+
+function state(overrides: Partial<LoginProtectionState> = {}): LoginProtectionState {
+  return { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, ...overrides };
+}
+
+describe('getLoginDelaySeconds', () => {
+  it('no exige espera antes del segundo fallo', () => {
+    expect(getLoginDelaySeconds(0)).toBe(0);
+    expect(getLoginDelaySeconds(1)).toBe(0);
+  });
+
+  it('duplica la espera con cada fallo hasta 60 segundos', () => {
+    expect([2, 3, 4, 5, 6, 7, 8].map(getLoginDelaySeconds)).toEqual([2, 4, 8, 16, 32, 60, 60]);
+  });
+});
+
+describe('getLoginBlock', () => {
+  it('permite intentar sin fallos previos', () => {
+    expect(getLoginBlock(state(), NOW)).toBeNull();
+  });
+
+  it('exige esperar lo que falta desde el último fallo', () => {
+    expect(getLoginBlock(state({ failedLoginAttempts: 3, lastFailedLoginAt: secondsAgo(1) }), NOW))
+      .toEqual({ reason: 'DELAYED', retryAfterSeconds: 3 });
+    expect(getLoginBlock(state({ failedLoginAttempts: 3, lastFailedLoginAt: secondsAgo(4) }), NOW)).toBeNull();
+  });
+
+  it('rechaza mientras la cuenta está bloqueada', () => {
+    const lockedUntil = new Date(NOW.getTime() + 90 * 1000);
+
+    expect(getLoginBlock(state({ failedLoginAttempts: 5, lastFailedLoginAt: NOW, lockedUntil }), NOW))
+      .toEqual({ reason: 'LOCKED', lockedUntil, retryAfterSeconds: 90 });
+  });
+
+  it('permite intentar cuando el bloqueo venció', () => {
+    const lockedUntil = secondsAgo(1);
+
+    expect(getLoginBlock(state({ failedLoginAttempts: 5, lastFailedLoginAt: secondsAgo(15 * 60 + 1), lockedUntil }), NOW))
+      .toBeNull();
+  });
+});
+
+describe('registerFailedLogin', () => {
+  // Usuario en memoria que aplica las actualizaciones como lo haría la base de datos
+  function createUserClient(initial: LoginProtectionState) {
+    const user = { ...initial };
+    const client = {
+      user: {
+        updateMany: jest.fn(async ({ where, data }) => {
+          const expired = user.lockedUntil !== null && user.lockedUntil <= where.lockedUntil.lte;
+          if (expired) {
+            Object.assign(user, data);
+          }
+          return { count: expired ? 1 : 0 };
+        }),
+        update: jest.fn(async ({ data }) => {
+          if (data.failedLoginAttempts) {
+            user.failedLoginAttempts += data.failedLoginAttempts.increment;
+            user.lastFailedLoginAt = data.lastFailedLoginAt;
+          }
+          if (data.lockedUntil) {
+            user.lockedUntil = data.lockedUntil;
+          }
+          return { failedLoginAttempts: user.failedLoginAttempts };
+        })
+      }
+    } as unknown as TransactionClient;
+
+    return { user, client };
+  }
+
+  it('suma el fallo sin bloquear antes del quinto', async () => {
+    const { client } = createUserClient(state({ failedLoginAttempts: 3 }));
+
+    await expect(registerFailedLogin(client, 'user-1', NOW)).resolves.toEqual({ failedAttempts: 4, lockedUntil: null });
+  });
+
+  it('bloquea 15 minutos al quinto fallo consecutivo', async () => {
+    const { user, client } = createUserClient(state({ failedLoginAttempts: 4 }));
+
+    const result = await registerFailedLogin(client, 'user-1', NOW);
+
+    expect(result).toEqual({ failedAttempts: 5, lockedUntil: new Date('2025-07-15T12:15:00.000Z') });
+    expect(user.lockedUntil).toEqual(result.lockedUntil);
+  });
+
+  it('cuenta desde cero el primer fallo después de un bloqueo vencido', async () => {
+    const { user, client } = createUserClient(state({
+      failedLoginAttempts: 5,
+      lastFailedLoginAt: secondsAgo(16 * 60),
+      lockedUntil: secondsAgo(60)
+    }));
+
+    await expect(registerFailedLogin(client, 'user-1', NOW)).resolves.toEqual({ failedAttempts: 1, lockedUntil: null });
+    expect(user.lockedUntil).toBeNull();
+    expect(getLoginBlock(user, NOW)).toBeNull();
+  });
+
+  it('no reinicia los fallos sin un bloqueo vencido', async () => {
+    const { client } = createUserClient(state({ failedLoginAttempts: 2 }));
+
+    await registerFailedLogin(client, 'user-1', NOW);
+
+    await expect(registerFailedLogin(client, 'user-1', NOW)).resolves.toEqual({ failedAttempts: 4, lockedUntil: null });
+  });
+});
@@ -0,0 +1,104 @@
+import bcrypt from 'bcryptjs';
+import { TransactionClient } from '../../../src/infrastructure/database/client';
+import { isPasswordReused, setUserPassword } from '../../../src/infrastructure/database/passwordHistory';
+import { PasswordPolicy } from '../../../src/shared/utils/passwords';
+
+const POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  historySize: 2,
+  maxAgeDays: 90
+};
+
+// Costo bajo para que las pruebas no tarden
+const hash = (password: string) => bcrypt.hashSync(password, 4);
+
+function createUserClient(user: { password: string; passwordHistory: { passwordHash: string }[] } | null) {
+  const findUnique = jest.fn().mockResolvedValue(user);
+  return { findUnique, client: { user: { findUnique } } as unknown as TransactionClient };
+}
+
+describe('isPasswordReused', () => {
+  const user = {
+    password: hash('Actual2025'),
+    passwordHistory: [{ passwordHash: hash('Anterior2025') }, { passwordHash: hash('Antigua2024') }]
+  };
+
+  it('detecta la contraseña actual y las del historial', async () => {
+    const { client } = createUserClient(user);
+
+    await expect(isPasswordReused(client, 'user-1', 'Actual2025', POLICY)).resolves.toBe(true);
+    await expect(isPasswordReused(client, 'user-1', 'Antigua2024', POLICY)).resolves.toBe(true);
+    await expect(isPasswordReused(client, 'user-1', 'Nueva2025', POLICY)).resolves.toBe(false);
+  });
+
+  it('solo consulta las últimas historySize contraseñas', async () => {
+    const { client, findUnique } = createUserClient(user);
+
+    await isPasswordReused(client, 'user-1', 'Nueva2025', POLICY);
+
+    expect(findUnique.mock.calls[0][0].select.passwordHistory.take).toBe(2);
+  });
+
+  it('no consulta nada si el historial está desactivado', async () => {
+    const { client, findUnique } = createUserClient(user);
+
+    await expect(isPasswordReused(client, 'user-1', 'Actual2025', { ...POLICY, historySize: 0 })).resolves.toBe(false);
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it('devuelve false si el usuario no existe', async () => {
+    const { client } = createUserClient(null);
+
+    await expect(isPasswordReused(client, 'user-1', 'Actual2025', POLICY)).resolves.toBe(false);
+  });
+});
+
+describe('setUserPassword', () => {
+  function createHistoryClient(staleIds: string[]) {
+    const calls = {
+      update: jest.fn().mockResolvedValue({}),
+      create: jest.fn().mockResolvedValue({}),
+      findMany: jest.fn().mockResolvedValue(staleIds.map(id => ({ id }))),
+      deleteMany: jest.fn().mockResolvedValue({ count: staleIds.length })
+    };
+    const client = {
+      user: { update: calls.update },
+      passwordHistory: { create: calls.create, findMany: calls.findMany, deleteMany: calls.deleteMany }
+    } as unknown as TransactionClient;
+
+    return { calls, client };
+  }
+
+  it('guarda el hash en el usuario y en el historial', async () => {
+    const { calls, client } = createHistoryClient([]);
+
+    await setUserPassword(client, 'user-1', 'Nueva2025', { mustChangePassword: false }, POLICY);
+
+    const { password, mustChangePassword } = calls.update.mock.calls[0][0].data;
+    expect(await bcrypt.compare('Nueva2025', password)).toBe(true);
+    expect(mustChangePassword).toBe(false);
+    expect(calls.create).toHaveBeenCalledWith({ data: { userId: 'user-1', passwordHash: password } });
+    expect(calls.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('borra las entradas que exceden historySize', async () => {
+    const { calls, client } = createHistoryClient(['old-1', 'old-2']);
+
+    await setUserPassword(client, 'user-1', 'Nueva2025', { mustChangePassword: true }, POLICY);
+
+    expect(calls.findMany.mock.calls[0][0].skip).toBe(2);
+    expect(calls.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['old-1', 'old-2'] } } });
+  });
+
+  it('conserva al menos la contraseña actual si el historial está desactivado', async () => {
+    const { calls, client } = createHistoryClient([]);
+
+    await setUserPassword(client, 'user-1', 'Nueva2025', { mustChangePassword: false }, { ...POLICY, historySize: 0 });
+
+    expect(calls.findMany.mock.calls[0][0].skip).toBe(1);
+  });
+});
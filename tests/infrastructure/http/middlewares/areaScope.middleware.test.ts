@@ -0,0 +1,233 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  fromAttendanceParam,
+  fromBodyRecordEmployees,
+  fromEmployeeParam,
+  fromOtherEmployeeParam,
+  fromQueryAreaIds,
+  getAllowedAreaIds,
+  requireAreaAccess
+} from '../../../../src/infrastructure/http/middlewares/areaScope.middleware';
+
+// Base de datos en memoria: usuarios con sus áreas y empleados con su área (null si no tiene)
+const mockUsers = new Map<string, { allAreas: boolean; areaAssignments: { areaId: string }[] }>();
+const mockEmployees = new Map<string, string | null>();
+const mockAttendance = new Map<string, string>();
+
+jest.mock('../../../../src/server', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(async ({ where }) => mockUsers.get(where.id) || null)
+    },
+    employee: {
+      findMany: jest.fn(async ({ where }) => (where.id.in as string[])
+        .filter(id => mockEmployees.has(id))
+        .map(id => ({ areaId: mockEmployees.get(id) })))
+    },
+    attendanceRecord: {
+      findUnique: jest.fn(async ({ where }) =>
+        mockAttendance.has(where.id) ? { employeeId: mockAttendance.get(where.id) } : null)
+    }
+  }
+}));
+
+jest.mock('../../../../src/config/supabase', () => ({
+  setUserContext: jest.fn()
+}));
+
+const AREA_ROSES = 'area-rosas';
+const AREA_PACKING = 'area-empaque';
+const AREA_FIELD = 'area-campo';
+
+type Role = 'ADMIN' | 'EDITOR' | 'VIEWER';
+
+interface MockResponse {
+  statusCode?: number;
+  body?: Record<string, unknown>;
+}
+
+function buildRequest(
+  user: { id: string; role: Role; employeeId?: string } | undefined,
+  overrides: { params?: Record<string, string>; query?: Record<string, string>; body?: unknown } = {}
+): Request {
+  return {
+    user: user && { email: `${user.id}@hojaverde.ec`, ...user },
+    params: overrides.params || {},
+    query: overrides.query || {},
+    body: overrides.body
+  } as unknown as Request;
+}
+
+async function runGuard(
+  req: Request,
+  ...resolvers: Parameters<typeof requireAreaAccess>
+): Promise<{ next: jest.Mock; response: MockResponse }> {
+  const response: MockResponse = {};
+  const res = {
+    status(code: number) {
+      response.statusCode = code;
+      return this;
+    },
+    json(body: Record<string, unknown>) {
+      response.body = body;
+      return this;
+    }
+  } as unknown as Response;
+  const next = jest.fn();
+
+  await requireAreaAccess(...resolvers)(req, res, next as NextFunction);
+
+  return { next, response };
+}
+
+const admin = { id: 'admin', role: 'ADMIN' as Role };
+const supervisor = { id: 'supervisor', role: 'EDITOR' as Role };
+const allAreasEditor = { id: 'maria', role: 'EDITOR' as Role };
+const unassigned = { id: 'sin-areas', role: 'EDITOR' as Role, employeeId: 'employee-self' };
+
+beforeEach(() => {
+  mockUsers.clear();
+  mockEmployees.clear();
+  mockAttendance.clear();
+
+  mockUsers.set(supervisor.id, {
+    allAreas: false,
+    areaAssignments: [{ areaId: AREA_ROSES }, { areaId: AREA_PACKING }]
+  });
+  mockUsers.set(allAreasEditor.id, { allAreas: true, areaAssignments: [] });
+  mockUsers.set(unassigned.id, { allAreas: false, areaAssignments: [] });
+
+  mockEmployees.set('employee-roses', AREA_ROSES);
+  mockEmployees.set('employee-field', AREA_FIELD);
+  mockEmployees.set('employee-no-area', null);
+  mockEmployees.set('employee-self', AREA_FIELD);
+
+  mockAttendance.set('attendance-roses', 'employee-roses');
+  mockAttendance.set('attendance-no-area', 'employee-no-area');
+});
+
+describe('requireAreaAccess', () => {
+  it('responde 401 sin usuario autenticado', async () => {
+    const { next, response } = await runGuard(buildRequest(undefined));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('no restringe a un ADMIN ni a un usuario con acceso a todas las áreas', async () => {
+    for (const user of [admin, allAreasEditor]) {
+      const req = buildRequest(user, { query: { areaIds: `${AREA_FIELD},otra-area` } });
+      const { next } = await runGuard(req, fromQueryAreaIds);
+
+      expect(next).toHaveBeenCalled();
+      expect(getAllowedAreaIds(req)).toBeNull();
+    }
+  });
+
+  it('deja pasar a un supervisor en sus áreas y expone las áreas permitidas', async () => {
+    const req = buildRequest(supervisor, { query: { areaIds: AREA_ROSES, areaId: AREA_PACKING } });
+    const { next } = await runGuard(req, fromQueryAreaIds);
+
+    expect(next).toHaveBeenCalled();
+    expect(getAllowedAreaIds(req)).toEqual([AREA_ROSES, AREA_PACKING]);
+  });
+
+  it('responde 403 con las áreas ajenas en forbiddenAreaIds', async () => {
+    const req = buildRequest(supervisor, { query: { areaIds: `${AREA_ROSES},${AREA_FIELD},${AREA_FIELD}` } });
+    const { next, response } = await runGuard(req, fromQueryAreaIds);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(403);
+    expect(response.body).toMatchObject({
+      success: false,
+      error: 'Áreas no autorizadas',
+      forbiddenAreaIds: [AREA_FIELD]
+    });
+  });
+
+  it('un usuario sin asignaciones no accede a ninguna área', async () => {
+    const listReq = buildRequest(unassigned);
+    const list = await runGuard(listReq, fromQueryAreaIds);
+
+    expect(list.next).toHaveBeenCalled();
+    expect(getAllowedAreaIds(listReq)).toEqual([]);
+
+    const { next, response } = await runGuard(buildRequest(unassigned, { query: { areaId: AREA_ROSES } }), fromQueryAreaIds);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.body).toMatchObject({ forbiddenAreaIds: [AREA_ROSES] });
+  });
+
+  it('responde 500 si no puede resolver las áreas', async () => {
+    const failing = () => Promise.reject(new Error('conexión perdida'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { next, response } = await runGuard(buildRequest(supervisor), failing);
+    consoleError.mockRestore();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response.statusCode).toBe(500);
+  });
+});
+
+describe('resolvedores de empleados', () => {
+  it('rechaza a un supervisor sobre un empleado de otra área', async () => {
+    const { response } = await runGuard(buildRequest(supervisor, { params: { id: 'employee-field' } }), fromEmployeeParam);
+
+    expect(response).toMatchObject({ statusCode: 403, body: { forbiddenAreaIds: [AREA_FIELD] } });
+  });
+
+  it('trata a un empleado sin área como no autorizado para usuarios con restricción', async () => {
+    const { next, response } = await runGuard(
+      buildRequest(supervisor, { params: { id: 'employee-no-area' } }),
+      fromEmployeeParam
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ statusCode: 403, body: { forbiddenAreaIds: [null] } });
+  });
+
+  it('permite a un ADMIN y a un usuario con todas las áreas gestionar empleados sin área', async () => {
+    for (const user of [admin, allAreasEditor]) {
+      const { next } = await runGuard(buildRequest(user, { params: { id: 'employee-no-area' } }), fromEmployeeParam);
+
+      expect(next).toHaveBeenCalled();
+    }
+  });
+
+  it('cada usuario puede consultar su propio registro de empleado', async () => {
+    const own = await runGuard(buildRequest(unassigned, { params: { id: 'employee-self' } }), fromOtherEmployeeParam);
+    const other = await runGuard(buildRequest(unassigned, { params: { id: 'employee-roses' } }), fromOtherEmployeeParam);
+
+    expect(own.next).toHaveBeenCalled();
+    expect(other.response).toMatchObject({ statusCode: 403, body: { forbiddenAreaIds: [AREA_ROSES] } });
+  });
+
+  it('rechaza el registro masivo si algún empleado es de otra área o no tiene área', async () => {
+    const body = {
+      records: [
+        { employeeId: 'employee-roses' },
+        { employeeId: 'employee-field' },
+        { employeeId: 'employee-no-area' },
+        { employeeId: 'employee-field' }
+      ]
+    };
+    const { response } = await runGuard(buildRequest(supervisor, { body }), fromBodyRecordEmployees);
+
+    expect(response).toMatchObject({ statusCode: 403, body: { forbiddenAreaIds: [AREA_FIELD, null] } });
+  });
+
+  it('usa el área del empleado de un registro de asistencia', async () => {
+    const own = await runGuard(buildRequest(supervisor, { params: { id: 'attendance-roses' } }), fromAttendanceParam);
+    const noArea = await runGuard(buildRequest(supervisor, { params: { id: 'attendance-no-area' } }), fromAttendanceParam);
+
+    expect(own.next).toHaveBeenCalled();
+    expect(noArea.response).toMatchObject({ statusCode: 403, body: { forbiddenAreaIds: [null] } });
+  });
+
+  it('deja que el controlador responda 404 si el registro no existe', async () => {
+    const { next } = await runGuard(buildRequest(supervisor, { params: { id: 'no-existe' } }), fromAttendanceParam);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { ComplianceDay, evaluateWeeklyCompliance } from '../../../src/shared/utils/compliance';
+
+const WEEK_START = new Date('2025-07-07');
+const WEEK_END = new Date('2025-07-13');
+
+function day(date: string, hours: Partial<ComplianceDay> = {}): ComplianceDay {
+  return {
+    date: new Date(date),
+    workedHours: 8,
+    supplementaryHours: 0,
+    extraordinaryHours: 0,
+    isVacation: false,
+    ...hours
+  };
+}
+
+// Lunes a viernes de la semana evaluada
+function workWeek(hours: Partial<ComplianceDay> = {}): ComplianceDay[] {
+  return ['2025-07-07', '2025-07-08', '2025-07-09', '2025-07-10', '2025-07-11'].map(date => day(date, hours));
+}
+
+function violationCodes(days: ComplianceDay[]): string[] {
+  return evaluateWeeklyCompliance(days, WEEK_START, WEEK_END).violations.map(violation => violation.code);
+}
+
+describe('evaluateWeeklyCompliance', () => {
+  it('acepta una semana de 40 horas ordinarias', () => {
+    const result = evaluateWeeklyCompliance(workWeek(), WEEK_START, WEEK_END);
+
+    expect(result.ordinaryHours).toBe(40);
+    expect(result.daysWorked).toBe(5);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('marca más de 40 horas ordinarias en la semana', () => {
+    const days = [...workWeek(), day('2025-07-12', { workedHours: 1 })];
+
+    expect(violationCodes(days)).toEqual(['WEEKLY_ORDINARY_HOURS_EXCEEDED']);
+  });
+
+  it('no cuenta como ordinarias las horas del día de descanso', () => {
+    // El sábado se paga completo como extraordinario
+    const days = [...workWeek(), day('2025-07-12', { extraordinaryHours: 8 })];
+    const result = evaluateWeeklyCompliance(days, WEEK_START, WEEK_END);
+
+    expect(result.ordinaryHours).toBe(40);
+    expect(result.extraordinaryHours).toBe(8);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('permite hasta 4 horas suplementarias al día y 12 a la semana', () => {
+    const days = [
+      ...workWeek().slice(0, 2),
+      ...workWeek({ workedHours: 12, supplementaryHours: 4 }).slice(2)
+    ];
+    const result = evaluateWeeklyCompliance(days, WEEK_START, WEEK_END);
+
+    expect(result.supplementaryHours).toBe(12);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('marca el día que supera 4 horas suplementarias', () => {
+    const days = [...workWeek().slice(1), day('2025-07-07', { workedHours: 12.5, supplementaryHours: 4.5 })];
+    const result = evaluateWeeklyCompliance(days, WEEK_START, WEEK_END);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({ code: 'DAILY_SUPPLEMENTARY_CAP_EXCEEDED', date: '2025-07-07' })
+    ]);
+  });
+
+  it('marca más de 12 horas suplementarias en la semana', () => {
+    const days = workWeek({ workedHours: 11, supplementaryHours: 3 });
+
+    expect(violationCodes(days)).toEqual(['WEEKLY_SUPPLEMENTARY_CAP_EXCEEDED']);
+  });
+
+  it('permite 6 días seguidos y marca el séptimo sin descanso', () => {
+    const sixDays = [...workWeek({ workedHours: 6 }), day('2025-07-12', { workedHours: 6 })];
+    const sevenDays = [...sixDays, day('2025-07-13', { workedHours: 6, extraordinaryHours: 6 })];
+
+    expect(evaluateWeeklyCompliance(sixDays, WEEK_START, WEEK_END).maxConsecutiveDays).toBe(6);
+    expect(violationCodes(sixDays)).toEqual([]);
+    expect(evaluateWeeklyCompliance(sevenDays, WEEK_START, WEEK_END).violations).toEqual([
+      expect.objectContaining({ code: 'NO_WEEKLY_REST', date: '2025-07-13' })
+    ]);
+  });
+
+  it('cuenta la racha que empieza en la semana anterior', () => {
+    const days = [
+      day('2025-07-04', { workedHours: 4 }),
+      day('2025-07-05', { workedHours: 4 }),
+      day('2025-07-06', { workedHours: 4, extraordinaryHours: 4 }),
+      ...workWeek({ workedHours: 6 })
+    ];
+
+    expect(evaluateWeeklyCompliance(days, WEEK_START, WEEK_END).violations).toEqual([
+      expect.objectContaining({ code: 'NO_WEEKLY_REST', date: '2025-07-10' })
+    ]);
+  });
+
+  it('las vacaciones cuentan como descanso', () => {
+    const days = [
+      day('2025-07-05', { workedHours: 4 }),
+      day('2025-07-06', { isVacation: true }),
+      ...workWeek({ workedHours: 6 }),
+      day('2025-07-12', { workedHours: 4 })
+    ];
+
+    expect(violationCodes(days)).toEqual([]);
+  });
+});
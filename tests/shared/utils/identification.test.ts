@@ -0,0 +1,71 @@
+import { isValidCedula, isValidRuc, validateIdentification } from '../../../src/shared/utils/identification';
+
+describe('isValidCedula', () => {
+  it('acepta cédulas con dígito verificador correcto', () => {
+    ['1003520929', '0804677771', '0401720735', '1710034065'].forEach(cedula => {
+      expect(isValidCedula(cedula)).toBe(true);
+    });
+  });
+
+  it('rechaza un dígito verificador incorrecto', () => {
+    expect(isValidCedula('1234567890')).toBe(false);
+    expect(isValidCedula('1710034066')).toBe(false);
+  });
+
+  it('acepta la provincia 30 de ecuatorianos en el exterior y rechaza la 25', () => {
+    expect(isValidCedula('3000000004')).toBe(true);
+    expect(isValidCedula('2500000001')).toBe(false);
+  });
+
+  it('rechaza un tercer dígito mayor que 5', () => {
+    expect(isValidCedula('1760001550')).toBe(false);
+  });
+
+  it('rechaza longitudes distintas de 10 y caracteres no numéricos', () => {
+    expect(isValidCedula('171003406')).toBe(false);
+    expect(isValidCedula('17100340655')).toBe(false);
+    expect(isValidCedula('17100340A5')).toBe(false);
+  });
+});
+
+describe('isValidRuc', () => {
+  it('acepta el RUC de una persona natural (cédula + establecimiento)', () => {
+    expect(isValidRuc('1710034065001')).toBe(true);
+    expect(isValidRuc('1710034065000')).toBe(false);
+    expect(isValidRuc('1710034066001')).toBe(false);
+  });
+
+  it('acepta el RUC de una entidad pública (tercer dígito 6)', () => {
+    expect(isValidRuc('1760001550001')).toBe(true);
+    expect(isValidRuc('1760001550000')).toBe(false);
+    expect(isValidRuc('1760001560001')).toBe(false);
+  });
+
+  it('acepta el RUC de una sociedad privada (tercer dígito 9)', () => {
+    expect(isValidRuc('1790011674001')).toBe(true);
+    expect(isValidRuc('1790011674000')).toBe(false);
+    expect(isValidRuc('1790011675001')).toBe(false);
+  });
+
+  it('rechaza los tipos de contribuyente 7 y 8 y las provincias inexistentes', () => {
+    expect(isValidRuc('1770011674001')).toBe(false);
+    expect(isValidRuc('1780011674001')).toBe(false);
+    expect(isValidRuc('2590011674001')).toBe(false);
+  });
+});
+
+describe('validateIdentification', () => {
+  it('explica el error según el tipo de documento', () => {
+    expect(validateIdentification('CEDULA', '1710034065')).toEqual([]);
+    expect(validateIdentification('CEDULA', '171003406')).toEqual(['La cédula debe tener 10 dígitos']);
+    expect(validateIdentification('CEDULA', '1234567890')).toEqual(['La cédula no es válida (provincia o dígito verificador incorrecto)']);
+    expect(validateIdentification('RUC', '1710034065')).toEqual(['El RUC debe tener 13 dígitos']);
+    expect(validateIdentification('RUC', '1790011674001')).toEqual([]);
+  });
+
+  it('solo valida el formato del pasaporte', () => {
+    expect(validateIdentification('PASAPORTE', 'AB123456')).toEqual([]);
+    expect(validateIdentification('PASAPORTE', 'AB12')).toEqual(['El pasaporte debe tener entre 5 y 20 letras o números']);
+    expect(validateIdentification('PASAPORTE', 'AB-123456')).toEqual(['El pasaporte debe tener entre 5 y 20 letras o números']);
+  });
+});
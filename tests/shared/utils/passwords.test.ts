@@ -0,0 +1,94 @@
+import {
+  generateTemporaryPassword,
+  getPasswordPolicy,
+  isPasswordExpired,
+  PasswordPolicy,
+  validatePasswordStrength
+} from '../../../src/shared/utils/passwords';
+
+const POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  historySize: 5,
+  maxAgeDays: 90
+};
+
+describe('getPasswordPolicy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('usa PASSWORD_POLICY cuando no hay variables de entorno', () => {
+    delete process.env.PASSWORD_MIN_LENGTH;
+    delete process.env.PASSWORD_REQUIRE_SYMBOL;
+
+    expect(getPasswordPolicy()).toMatchObject({ minLength: 8, requireSymbol: false, historySize: 5, maxAgeDays: 90 });
+  });
+
+  it('lee la política de las variables PASSWORD_* e ignora valores inválidos', () => {
+    process.env.PASSWORD_MIN_LENGTH = '12';
+    process.env.PASSWORD_REQUIRE_SYMBOL = 'true';
+    process.env.PASSWORD_HISTORY_SIZE = '0';
+    process.env.PASSWORD_MAX_AGE_DAYS = '-1';
+
+    expect(getPasswordPolicy()).toMatchObject({ minLength: 12, requireSymbol: true, historySize: 0, maxAgeDays: 90 });
+  });
+});
+
+describe('validatePasswordStrength', () => {
+  it('acepta una contraseña que cumple la política', () => {
+    expect(validatePasswordStrength('Rosas2025', POLICY)).toEqual([]);
+  });
+
+  it('exige la longitud mínima exacta', () => {
+    expect(validatePasswordStrength('Rosas202', POLICY)).toEqual([]);
+    expect(validatePasswordStrength('Rosas20', POLICY)).toEqual(['La contraseña debe tener al menos 8 caracteres']);
+  });
+
+  it('lista cada regla de composición incumplida', () => {
+    expect(validatePasswordStrength('rosas2025', POLICY)).toEqual(['Debe contener al menos una mayúscula']);
+    expect(validatePasswordStrength('ROSAS2025', POLICY)).toEqual(['Debe contener al menos una minúscula']);
+    expect(validatePasswordStrength('RosasRojas', POLICY)).toEqual(['Debe contener al menos un número']);
+    expect(validatePasswordStrength('Rosas2025', { ...POLICY, requireSymbol: true }))
+      .toEqual(['Debe contener al menos un símbolo']);
+  });
+});
+
+describe('isPasswordExpired', () => {
+  const changedAt = new Date('2025-01-01T00:00:00.000Z');
+
+  it('vence después de maxAgeDays días', () => {
+    expect(isPasswordExpired(changedAt, POLICY, new Date('2025-04-01T00:00:00.000Z'))).toBe(false);
+    expect(isPasswordExpired(changedAt, POLICY, new Date('2025-04-01T00:00:01.000Z'))).toBe(true);
+  });
+
+  it('no vence si maxAgeDays es 0', () => {
+    expect(isPasswordExpired(changedAt, { ...POLICY, maxAgeDays: 0 }, new Date('2030-01-01'))).toBe(false);
+  });
+});
+
+describe('generateTemporaryPassword', () => {
+  it('genera al menos 12 caracteres que cumplen la política', () => {
+    const password = generateTemporaryPassword(POLICY);
+
+    expect(password).toHaveLength(12);
+    expect(validatePasswordStrength(password, POLICY)).toEqual([]);
+  });
+
+  it('respeta una longitud mínima mayor y la exigencia de símbolos', () => {
+    const policy = { ...POLICY, minLength: 16, requireSymbol: true };
+    const password = generateTemporaryPassword(policy);
+
+    expect(password).toHaveLength(16);
+    expect(validatePasswordStrength(password, policy)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { calculateExtraHoursPay, getHourlyRate, prorateSalary } from '../../../src/shared/utils/payroll';
+
+const SALARY = 600;
+
+describe('prorateSalary', () => {
+  it('suma un sueldo en un período completo de 26 a 25', () => {
+    expect(prorateSalary(new Date('2024-12-26'), new Date('2025-01-25'), () => SALARY)).toBe(600);
+    expect(prorateSalary(new Date('2025-01-26'), new Date('2025-02-25'), () => SALARY)).toBe(600);
+  });
+
+  it('suma dos sueldos en dos períodos completos', () => {
+    expect(prorateSalary(new Date('2024-12-26'), new Date('2025-02-25'), () => SALARY)).toBe(1200);
+  });
+
+  it('cobra solo los días de un período parcial', () => {
+    // 10 de los 31 días del período 26/dic - 25/ene
+    expect(prorateSalary(new Date('2025-01-16'), new Date('2025-01-25'), () => SALARY)).toBe(193.55);
+  });
+
+  it('usa el sueldo vigente en cada día', () => {
+    const salaryOn = (date: Date) => (date < new Date('2025-01-11') ? SALARY : 900);
+
+    // 16 días a 600 y 15 días a 900 sobre 31 días
+    expect(prorateSalary(new Date('2024-12-26'), new Date('2025-01-25'), salaryOn)).toBe(745.16);
+  });
+
+  it('no cobra nada si el rango está vacío', () => {
+    expect(prorateSalary(new Date('2025-01-10'), new Date('2025-01-09'), () => SALARY)).toBe(0);
+  });
+});
+
+describe('calculateExtraHoursPay', () => {
+  it('valora las horas con los recargos del Código del Trabajo', () => {
+    const pay = calculateExtraHoursPay(
+      { nightHours: 4, supplementaryHours: 2, extraordinaryHours: 1 },
+      getHourlyRate(SALARY)
+    );
+
+    expect(pay).toEqual({
+      nightSurcharge: 2.5,
+      supplementaryPay: 7.5,
+      extraordinaryPay: 5,
+      total: 15
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { calculateNightHours, splitShiftMinutes, timeToMinutes } from '../../../src/shared/utils/timeIntervals';
+
+describe('timeToMinutes', () => {
+  it('convierte HH:mm a minutos desde la medianoche', () => {
+    expect(timeToMinutes('00:00')).toBe(0);
+    expect(timeToMinutes('06:30')).toBe(390);
+    expect(timeToMinutes('23:59')).toBe(1439);
+  });
+});
+
+describe('splitShiftMinutes', () => {
+  it('una jornada diurna no tiene minutos nocturnos', () => {
+    expect(splitShiftMinutes('06:00', '19:00')).toEqual({ dayMinutes: 780, nightMinutes: 0 });
+  });
+
+  it('cuenta como nocturnos los minutos antes de las 06:00 y desde las 19:00', () => {
+    expect(splitShiftMinutes('05:00', '07:00')).toEqual({ dayMinutes: 60, nightMinutes: 60 });
+    expect(splitShiftMinutes('18:00', '20:00')).toEqual({ dayMinutes: 60, nightMinutes: 60 });
+    expect(splitShiftMinutes('04:00', '23:00')).toEqual({ dayMinutes: 780, nightMinutes: 360 });
+  });
+
+  it('toda la franja de 19:00 a 06:00 es nocturna aunque cruce medianoche', () => {
+    expect(splitShiftMinutes('19:00', '06:00')).toEqual({ dayMinutes: 0, nightMinutes: 660 });
+    expect(splitShiftMinutes('22:00', '02:00')).toEqual({ dayMinutes: 0, nightMinutes: 240 });
+  });
+
+  it('un turno que cruza medianoche suma la madrugada del día siguiente', () => {
+    expect(splitShiftMinutes('18:00', '07:00')).toEqual({ dayMinutes: 120, nightMinutes: 660 });
+  });
+
+  it('descuenta el almuerzo y los permisos primero de la parte diurna', () => {
+    expect(splitShiftMinutes('06:00', '15:00', 30, 2)).toEqual({ dayMinutes: 390, nightMinutes: 0 });
+    expect(splitShiftMinutes('18:00', '03:00', 30)).toEqual({ dayMinutes: 30, nightMinutes: 480 });
+  });
+
+  it('descuenta de la parte nocturna lo que no alcanza a cubrir la diurna', () => {
+    expect(splitShiftMinutes('18:30', '20:00', 60)).toEqual({ dayMinutes: 0, nightMinutes: 30 });
+    expect(splitShiftMinutes('19:00', '21:00', 180)).toEqual({ dayMinutes: 0, nightMinutes: 0 });
+  });
+});
+
+describe('calculateNightHours', () => {
+  it('devuelve las horas nocturnas del turno', () => {
+    expect(calculateNightHours('19:00', '06:00')).toBe(11);
+    expect(calculateNightHours('18:00', '03:00', 30)).toBe(8);
+  });
+});
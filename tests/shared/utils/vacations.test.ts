@@ -0,0 +1,44 @@
+import { calculateAccruedVacationDays, countCalendarDays, listDates } from '../../../src/shared/utils/vacations';
+
+const HIRE_DATE = new Date('2015-03-01');
+
+describe('calculateAccruedVacationDays', () => {
+  it('no acumula días antes ni el mismo día del ingreso', () => {
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2015-02-28'))).toBe(0);
+    expect(calculateAccruedVacationDays(HIRE_DATE, HIRE_DATE)).toBe(0);
+  });
+
+  it('acumula la parte proporcional del año en curso', () => {
+    // 184 de los 366 días del primer año (incluye el 29 de febrero de 2016)
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2015-09-01'))).toBe(7.54);
+  });
+
+  it('suma 15 días por cada uno de los primeros cinco años', () => {
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2016-03-01'))).toBe(15);
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2020-03-01'))).toBe(75);
+  });
+
+  it('suma un día adicional por año desde el sexto', () => {
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2021-03-01'))).toBe(91);
+    expect(calculateAccruedVacationDays(HIRE_DATE, new Date('2022-03-01'))).toBe(108);
+  });
+
+  it('no supera los 15 días adicionales por año', () => {
+    // Años 1-5: 75; años 6-20: 15 + 1..15 cada uno; año 21: 30
+    expect(calculateAccruedVacationDays(new Date('2000-01-01'), new Date('2021-01-01'))).toBe(450);
+  });
+});
+
+describe('countCalendarDays', () => {
+  it('incluye ambas fechas', () => {
+    expect(countCalendarDays(new Date('2025-07-01'), new Date('2025-07-01'))).toBe(1);
+    expect(countCalendarDays(new Date('2025-07-01'), new Date('2025-07-15'))).toBe(15);
+  });
+});
+
+describe('listDates', () => {
+  it('lista cada día del rango aunque cruce de mes', () => {
+    expect(listDates(new Date('2025-01-30'), new Date('2025-02-02')).map(date => date.toISOString().split('T')[0]))
+      .toEqual(['2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02']);
+  });
+});